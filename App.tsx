@@ -1,7 +1,7 @@
 
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
 import * as prettier from "https://esm.sh/prettier@3.3.2/standalone";
 import * as pluginBabel from "https://esm.sh/prettier@3.3.2/plugins/babel";
 import * as pluginEstree from "https://esm.sh/prettier@3.3.2/plugins/estree";
@@ -9,6 +9,19 @@ import * as pluginHtml from "https://esm.sh/prettier@3.3.2/plugins/html";
 import * as pluginPostcss from "https://esm.sh/prettier@3.3.2/plugins/postcss";
 import * as monaco from 'https://esm.sh/monaco-editor@0.49.0';
 import { WebContainer } from 'https://esm.sh/@webcontainer/api?module';
+import { Terminal } from 'https://esm.sh/@xterm/xterm@5.5.0';
+import { FitAddon } from 'https://esm.sh/@xterm/addon-fit@0.10.0';
+import type { Agent, AgentTask, AgentTaskState, PendingChange, PlannedTask, TestFailure, TestRunResult, VerificationMode, VerificationResult } from './types';
+import { applyFileEdits, EDIT_FORMAT_INSTRUCTIONS, parseEditResponse } from './patches';
+import { ABORTED_ERROR, Orchestrator, TaskError, validatePlan, type PlanIssue, type TaskCheckOutcome, type TaskExecutionResult } from './orchestrator';
+import { buildTestRunResult, isTestFile, sourceCandidatesForTest, summarizeTestRun, TEST_COMMAND, testRunPassed, TEST_RESULTS_PATH, TEST_TIMEOUT_MS } from './testing';
+import { ContainerService, CONTAINER_STATUS_LABELS, type ContainerState } from './containerService';
+import { applyDependencyChanges, DEPENDENCY_INSTRUCTIONS, dependencySignature, describeDependencyChange, INSTALL_COMMAND, INSTALL_TIMEOUT_MS, listDependencies, parseDependencyDirectives, resolveDependencyVersions, splitPackageSpec, type DependencyChange } from './dependencies';
+import { findStackLocation, injectPreviewBridge, isPreviewMessage, stripPreviewBridge, type PreviewMessage, type StackLocation } from './previewBridge';
+import { buildVerificationResult, describeVerificationFailure, VERIFICATION_COMMANDS, VERIFICATION_MODE_LABELS, VERIFICATION_TIMEOUT_MS } from './verification';
+import { canEditFile, DEFAULT_AGENT_COLOR, DEFAULT_AGENT_DEFINITIONS, describeAgentRoles, getAssignableAgents, PLANNER_AGENT_NAME, suggestAgentForFiles, USER_COLOR, validateAgentDefinitions, type AgentDefinition } from './agents';
+import { GRAPH_NODE_HEIGHT, GRAPH_NODE_WIDTH, layoutPlanGraph, TASK_STATE_GRAPH_COLORS } from './planGraph';
+import { createProvider, DEFAULT_PROVIDER_CONFIGS, PROVIDER_KIND_LABELS, ResponseRecorder, type LLMProvider, type ProviderConfig, type ProviderKind, type ScriptedResponse } from './providers';
 
 // --- ERROR BOUNDARY ---
 interface ErrorBoundaryProps {
@@ -93,30 +106,41 @@ interface FileNode {
   path: string;
 }
 
-type AgentTaskState = 'Queued' | 'Executing' | 'Completed' | 'Failed' | 'Blocked';
+interface TerminalLog {
+    id: number;
+    time: string;
+    source: string;
+    message: string;
+    previewError?: { message: string; stack?: string; location: StackLocation | null }; // Set for errors raised inside the preview
+}
 
-interface AgentTask {
-    id: string;
-    description: string;
-    state: AgentTaskState;
-    filePath: string;
-    dependencies?: string[];
-    agent: string;
-    retries: number;
+// The parts of xterm and of a WebContainer process that ShellTerminal uses; both load from a CDN without types.
+interface XtermSubscription {
+    dispose(): void;
 }
 
-interface Agent {
-  name: string;
-  status: 'Idle' | 'Working';
-  tasks: AgentTask[];
+interface XtermFitAddon {
+    fit(): void;
 }
 
+interface XtermTerminal {
+    readonly cols: number;
+    readonly rows: number;
+    loadAddon(addon: XtermFitAddon): void;
+    open(element: HTMLElement): void;
+    write(data: string): void;
+    writeln(data: string): void;
+    clear(): void;
+    dispose(): void;
+    onData(listener: (data: string) => void): XtermSubscription;
+    onResize(listener: (size: { cols: number; rows: number }) => void): XtermSubscription;
+}
 
-interface TerminalLog {
-    id: number;
-    time: string;
-    source: string;
-    message: string;
+interface ShellProcess {
+    output: ReadableStream<string>;
+    input: WritableStream<string>;
+    kill(): void;
+    resize(size: { cols: number; rows: number }): void;
 }
 
 interface CommLog {
@@ -124,15 +148,91 @@ interface CommLog {
     agent: string;
     message: string;
     time: string;
+    streamId?: string; // Set on entries that show a task's response; the text streams in while it generates
+    recipient?: string; // Set on user messages addressed to a single agent
+    threadId?: string; // Shared by a direct message and the agent's replies to it
+}
+
+// How an agent acts on a direct message, alongside its reply.
+interface DirectMessageDecision {
+    reply: string;
+    action: 'task' | 'amend' | 'none';
+    taskId?: string; // The task to amend
+    description?: string; // The new task's description, or the amended one
+    filePath?: string;
+    files?: string[];
+}
+
+// A task response that is still generating, keyed by stream id (`<taskId>#<attempt>`).
+interface LiveOutput {
+    taskId: string;
+    agent: string;
+    filePaths: string[];
+    text: string;
+}
+
+// One prompt in a run: the request that started it, or a follow-up that added tasks to it.
+interface RunTurn {
+    prompt: string;
+    time: string;
+    taskIds: string[]; // Tasks this prompt added to the plan
+}
+
+// One execution plan and the conversation that shaped it. A new plan archives the previous run's tasks.
+interface PlanRun {
+    id: string;
+    startedAt: number;
+    turns: RunTurn[];
+    tasks: AgentTask[]; // Snapshot taken when the run was archived; empty while it is the current run
 }
 
+// What a prompt does when a plan already exists: add tasks to it, or start a new run.
+type FollowUpMode = 'append' | 'new';
+
 interface Commit {
     id: string;
     message: string;
     author: string;
     date: string;
+    parentId: string | null;
+    files: Record<string, string>; // Snapshot of every file path -> content at commit time
+}
+
+// Mirrors monaco's ILineChange. An end line of 0 means the hunk is a pure insertion/deletion after the start line.
+interface DiffHunk {
+    originalStartLineNumber: number;
+    originalEndLineNumber: number;
+    modifiedStartLineNumber: number;
+    modifiedEndLineNumber: number;
+}
+
+// Everything needed to bring a workspace back after a reload.
+interface WorkspaceSession {
+    id: string;
+    name: string;
+    updatedAt: number;
+    files: FileNode[];
+    agents: Agent[];
+    commLogs: CommLog[];
+    terminalLogs: TerminalLog[];
+    openFiles: string[];
+    activeFile: string | null;
+    originalPrompt: string;
+    commits: Commit[];
+    headCommitId: string | null;
+    headFiles: Record<string, string>;
+    stagedFiles: Record<string, string>;
+    requireReview: boolean;
+    isRunning: boolean;
+    isPaused?: boolean;
+    runs?: PlanRun[]; // Missing in sessions saved before follow-ups existed
+    planIssues?: PlanIssue[]; // Missing in sessions saved before plan validation existed
+    draftPlan?: PlannedTask[] | null;
+    verificationMode?: VerificationMode;
 }
 
+type SessionSummary = Pick<WorkspaceSession, 'id' | 'name' | 'updatedAt'>;
+
 // --- MOCK DATA & CONFIG ---
 const packageJsonContent = JSON.stringify({
     name: "vite-react-starter",
@@ -140,7 +240,8 @@ const packageJsonContent = JSON.stringify({
     version: "0.0.0",
     type: "module",
     scripts: {
-        dev: "vite"
+        dev: "vite",
+        test: "vitest run"
     },
     dependencies: {
         "react": "^18.2.0",
@@ -149,6 +250,7 @@ const packageJsonContent = JSON.stringify({
     devDependencies: {
         "@vitejs/plugin-react": "^4.2.1",
         "vite": "^5.1.5",
+        "vitest": "^1.4.0",
         "typescript": "^5.4.2",
         "@types/react": "^18.2.64",
         "@types/react-dom": "^18.2.21"
@@ -170,6 +272,24 @@ export default defineConfig({
 });`;
 
 
+// Lets the verification step type-check the project with `tsc --noEmit`.
+const tsconfigContent = JSON.stringify({
+    compilerOptions: {
+        target: "ES2020",
+        lib: ["ES2020", "DOM", "DOM.Iterable"],
+        module: "ESNext",
+        moduleResolution: "bundler",
+        jsx: "react-jsx",
+        strict: true,
+        skipLibCheck: true,
+        noEmit: true,
+        isolatedModules: true,
+        allowImportingTsExtensions: true,
+        types: ["vite/client"]
+    },
+    include: ["src"]
+}, null, 2);
+
 const initialFiles: FileNode[] = [
     { 
         name: 'index.html', 
@@ -270,18 +390,82 @@ button:hover {
     },
     { name: 'package.json', type: 'file', extension: 'json', path: '/package.json', content: packageJsonContent },
     { name: 'vite.config.js', type: 'file', extension: 'js', path: '/vite.config.js', content: viteConfigContent },
+    { name: 'tsconfig.json', type: 'file', extension: 'json', path: '/tsconfig.json', content: tsconfigContent },
     { name: '.gitignore', type: 'file', path: '/.gitignore', content: 'node_modules\ndist\nbuild' },
 ];
 
-const initialAgents: Agent[] = [
-    { name: 'Orchestrator', status: 'Idle', tasks: [] },
-    { name: 'Frontend-Dev', status: 'Idle', tasks: [] },
-    { name: 'Backend-Dev', status: 'Idle', tasks: [] },
-    { name: 'QA-Tester', status: 'Idle', tasks: [] },
-    { name: 'UX-Designer', status: 'Idle', tasks: [] },
+const CONTAINER_SYNC_IGNORED = new Set(['node_modules', 'dist', '.git', '.agentic']); // Never mirrored back into the workspace
+const CONTAINER_SYNC_MAX_FILE_SIZE = 512 * 1024;
+const CONTAINER_SYNC_DEBOUNCE_MS = 300; // Batches the burst of watch events a single command produces
+const MAX_ATTEMPTS_IN_PROMPT = 3;
+const MAX_ATTEMPT_OUTPUT_IN_PROMPT = 2000;
+const MAX_TEST_FIX_ROUNDS = 2; // Fix-up/re-test cycles before failing tests are left to the user
+const CONTAINER_WAIT_MS = 5 * 60 * 1000; // npm install on first boot can take a few minutes
+
+interface ViewportPreset {
+    id: string;
+    label: string;
+    width: number;
+    height: number;
+}
+
+// Portrait CSS pixel sizes; 'responsive' (fill the panel) and 'custom' are handled separately.
+const VIEWPORT_PRESETS: ViewportPreset[] = [
+    { id: 'iphone-se', label: 'iPhone SE', width: 375, height: 667 },
+    { id: 'iphone-15', label: 'iPhone 15', width: 393, height: 852 },
+    { id: 'pixel-8', label: 'Pixel 8', width: 412, height: 915 },
+    { id: 'ipad-mini', label: 'iPad Mini', width: 768, height: 1024 },
+    { id: 'ipad-pro', label: 'iPad Pro 12.9"', width: 1024, height: 1366 },
+    { id: 'laptop', label: 'Laptop', width: 1366, height: 768 },
+    { id: 'desktop', label: 'Desktop', width: 1920, height: 1080 },
 ];
+const MULTI_VIEWPORT_PRESET_IDS = ['iphone-15', 'ipad-mini', 'laptop']; // Phone, tablet, desktop
+const ZOOM_LEVELS = [0.25, 0.5, 0.75, 1, 1.25];
+const MAX_STREAM_LOG_LENGTH = 4000; // Of a finished response kept in the Communications log
+const FOLLOW_UP_MODE_LABELS: Record<FollowUpMode, string> = { append: 'Add to plan', new: 'New plan' };
+const MAX_RUNS_IN_PROMPT = 3; // Earlier runs described to the Orchestrator when it plans a new one
+const MAX_TASKS_PER_RUN_IN_PROMPT = 20;
+const VIEWPORT_GAP = 24; // Between frames in multi-viewport mode, and around the stage
 
 // --- HELPERS ---
+// The agent whose most recently finished task wrote `path`, if any.
+const findLastAuthor = (tasks: AgentTask[], path: string): string | undefined => {
+    const finishedAt = (task: AgentTask) => task.attempts?.[task.attempts.length - 1]?.finishedAt ?? 0;
+    return tasks
+        .filter(task => task.state === 'Completed' && !task.runOnly && getTaskFilePaths(task).includes(path))
+        .sort((a, b) => finishedAt(b) - finishedAt(a))[0]?.agent;
+};
+
+// The container gets index.html with the preview bridge injected; everything else is written as-is.
+const toContainerContent = (path: string, content: string): string => path === '/index.html' ? injectPreviewBridge(content) : content;
+
+// The failed attempts a retry should learn from, most recent last, phrased for the agent's prompt.
+const describePreviousAttempts = (task: AgentTask): string => {
+    const failed = (task.attempts || []).filter(attempt => attempt.outcome !== 'succeeded').slice(-MAX_ATTEMPTS_IN_PROMPT);
+    if (failed.length === 0) {
+        return task.error ? `\n**Your previous attempt at this task failed:**\n${task.error}\nMake sure this attempt fixes these problems.\n` : '';
+    }
+    const sections = failed.map(attempt => {
+        const output = attempt.output
+            ? `\nYour response was:\n\`\`\`\n${attempt.output.length > MAX_ATTEMPT_OUTPUT_IN_PROMPT ? `${attempt.output.slice(0, MAX_ATTEMPT_OUTPUT_IN_PROMPT)}\n…(truncated)` : attempt.output}\n\`\`\``
+            : '';
+        return `Attempt ${attempt.number} ${{ rejected: 'was rejected by the reviewer', aborted: 'was aborted by the user' }[attempt.outcome] || 'failed'}:\n${attempt.error || 'No reason was recorded.'}${output}`;
+    });
+    return `\n**Previous attempts at this task did not succeed. Do not repeat their mistakes:**\n${sections.join('\n\n')}\n`;
+};
+
+const getTaskFilePaths = (task: Pick<AgentTask, 'filePath' | 'files'>): string[] => [...new Set([task.filePath, ...(task.files || [])])];
+
+// Earlier runs as planner context, so a new plan can build on what was asked and done before.
+const describeRunHistory = (runs: PlanRun[]): string => runs.slice(-MAX_RUNS_IN_PROMPT).map((run, index) => {
+    const prompts = run.turns.map((turn, turnIndex) => `${turnIndex === 0 ? 'Request' : 'Follow-up'}: "${turn.prompt}"`);
+    const tasks = run.tasks.slice(0, MAX_TASKS_PER_RUN_IN_PROMPT).map(task => `- [${task.state}] ${task.description} (${getTaskFilePaths(task).join(', ')})`);
+    const omitted = run.tasks.length > MAX_TASKS_PER_RUN_IN_PROMPT ? [`- …and ${run.tasks.length - MAX_TASKS_PER_RUN_IN_PROMPT} more task(s)`] : [];
+    return [`Run ${index + 1}:`, ...prompts, ...tasks, ...omitted].join('\n');
+}).join('\n\n');
+
+const generateRunId = (): string => `run-${Date.now().toString(36)}`;
+
 const formatCodeWithPrettier = async (content: string, extension: string): Promise<string> => {
     try {
         const parserMap: { [key: string]: string } = { 'js': 'babel', 'jsx': 'babel', 'ts': 'babel-ts', 'tsx': 'babel-ts', 'css': 'css', 'html': 'html' };
@@ -312,6 +496,53 @@ const findFileNode = (path: string, nodes: FileNode[]): FileNode | null => {
     return null;
 };
 
+const getFileExtension = (name: string): string | undefined => name.includes('.') ? name.split('.').pop() : undefined;
+
+const flattenFiles = (nodes: FileNode[]): Record<string, string> => {
+    let flat: Record<string, string> = {};
+    nodes.forEach(node => {
+        if (node.type === 'file' && node.content !== undefined) flat[node.path] = node.content;
+        if (node.children) flat = { ...flat, ...flattenFiles(node.children) };
+    });
+    return flat;
+};
+
+// Rebuilds a FileNode tree from a flat path -> content map (e.g. a commit snapshot).
+const buildFileTree = (flat: Record<string, string>): FileNode[] => {
+    const root: FileNode[] = [];
+    Object.keys(flat).sort().forEach(path => {
+        const parts = path.split('/').filter(Boolean);
+        let level = root;
+        parts.forEach((part, index) => {
+            const nodePath = '/' + parts.slice(0, index + 1).join('/');
+            if (index === parts.length - 1) {
+                level.push({ name: part, type: 'file', extension: getFileExtension(part), path: nodePath, content: flat[path] });
+                return;
+            }
+            let folder = level.find(node => node.path === nodePath && node.type === 'folder');
+            if (!folder) {
+                folder = { name: part, type: 'folder', path: nodePath, children: [] };
+                level.push(folder);
+            }
+            level = folder.children!;
+        });
+    });
+    return root;
+};
+
+// Replaces the lines a hunk covers in `target` with the lines it covers in `source`.
+// Staging applies modified -> original; discarding applies original -> modified.
+const spliceHunk = (target: string, source: string, targetStart: number, targetEnd: number, sourceStart: number, sourceEnd: number): string => {
+    const targetLines = target.split('\n');
+    const sourceLines = sourceEnd === 0 ? [] : source.split('\n').slice(sourceStart - 1, sourceEnd);
+    const start = targetEnd === 0 ? targetStart : targetStart - 1;
+    const deleteCount = targetEnd === 0 ? 0 : targetEnd - targetStart + 1;
+    targetLines.splice(start, deleteCount, ...sourceLines);
+    return targetLines.join('\n');
+};
+
+const generateCommitId = (): string => Array.from({ length: 7 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+
 const generatePlaceholderSVG = (width: number, height: number, text: string): string => {
     const bgColor = '#6b7280'; // gray-500
     const textColor = '#f3f4f6'; // gray-100
@@ -327,11 +558,96 @@ const generatePlaceholderSVG = (width: number, height: number, text: string): st
 };
 
 
+// --- PERSISTENCE ---
+const SESSION_DB_NAME = 'agentic-workspace';
+const SESSION_STORE_NAME = 'sessions';
+const LAST_SESSION_STORAGE_KEY = 'agentic.lastSessionId';
+const MAX_PERSISTED_TERMINAL_LOGS = 500;
+
+const openSessionDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(SESSION_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(SESSION_STORE_NAME)) {
+            request.result.createObjectStore(SESSION_STORE_NAME, { keyPath: 'id' });
+        }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const runSessionRequest = async <T,>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openSessionDb();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = operation(db.transaction(SESSION_STORE_NAME, mode).objectStore(SESSION_STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+};
+
+const listSessions = async (): Promise<SessionSummary[]> => {
+    const sessions = await runSessionRequest<WorkspaceSession[]>('readonly', store => store.getAll());
+    return sessions.map(({ id, name, updatedAt }) => ({ id, name, updatedAt })).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+const loadSession = (id: string): Promise<WorkspaceSession | undefined> => runSessionRequest<WorkspaceSession | undefined>('readonly', store => store.get(id));
+
+const saveSession = (session: WorkspaceSession): Promise<IDBValidKey> => runSessionRequest('readwrite', store => store.put({
+    ...session,
+    terminalLogs: session.terminalLogs.slice(-MAX_PERSISTED_TERMINAL_LOGS),
+}));
+
+const deleteSession = (id: string): Promise<undefined> => runSessionRequest('readwrite', store => store.delete(id));
+
+const PROVIDER_SETTINGS_STORAGE_KEY = 'agentic.providerSettings';
+const PROVIDER_API_KEYS_STORAGE_KEY = 'agentic.providerApiKeys'; // sessionStorage, unless keys are remembered
+const REMEMBER_API_KEYS_STORAGE_KEY = 'agentic.rememberApiKeys';
+const AGENT_REGISTRY_STORAGE_KEY = 'agentic.agentRegistry';
+
+// Provider settings are per browser rather than per session: endpoints and keys belong to the machine, not the project.
+// API keys stay in sessionStorage, so they are gone when the tab closes, unless the user opts in to remembering them.
+const loadProviderSettings = (): Record<string, ProviderConfig> => {
+    try {
+        const settings: Record<string, ProviderConfig> = JSON.parse(localStorage.getItem(PROVIDER_SETTINGS_STORAGE_KEY) || '{}');
+        const apiKeys: Record<string, string> = JSON.parse(sessionStorage.getItem(PROVIDER_API_KEYS_STORAGE_KEY) || '{}');
+        return Object.fromEntries(Object.entries(settings).map(([agentName, config]) => [agentName, apiKeys[agentName] ? { ...config, apiKey: apiKeys[agentName] } : config]));
+    } catch {
+        return {};
+    }
+};
+
+const saveProviderSettings = (settings: Record<string, ProviderConfig>, rememberApiKeys: boolean) => {
+    const withoutKeys = Object.fromEntries(Object.entries(settings).map(([agentName, { apiKey, ...config }]) => [agentName, config]));
+    const apiKeys = Object.fromEntries(Object.entries(settings).filter(([, config]) => config.apiKey).map(([agentName, config]) => [agentName, config.apiKey]));
+    localStorage.setItem(PROVIDER_SETTINGS_STORAGE_KEY, JSON.stringify(rememberApiKeys ? settings : withoutKeys));
+    localStorage.setItem(REMEMBER_API_KEYS_STORAGE_KEY, String(rememberApiKeys));
+    if (rememberApiKeys) sessionStorage.removeItem(PROVIDER_API_KEYS_STORAGE_KEY);
+    else sessionStorage.setItem(PROVIDER_API_KEYS_STORAGE_KEY, JSON.stringify(apiKeys));
+};
+
+// The agent registry is per browser too, so a roster defined once is there for every session.
+const loadAgentDefinitions = (): AgentDefinition[] => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(AGENT_REGISTRY_STORAGE_KEY) || 'null');
+        return Array.isArray(saved) && validateAgentDefinitions(saved).length === 0 ? saved : DEFAULT_AGENT_DEFINITIONS;
+    } catch {
+        return DEFAULT_AGENT_DEFINITIONS;
+    }
+};
+
+const generateSessionId = (): string => `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
 // --- ICONS ---
 const LogoIcon = () => <svg className="h-6 w-6 text-blue-400" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/></svg>;
 const ExplorerIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" /></svg>;
 const SourceControlIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>;
 const AgentsIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-6-3a2 2 0 11-4 0 2 2 0 014 0zm-2 4a5 5 0 00-4.546 2.916A5.986 5.986 0 0010 16a5.986 5.986 0 004.546-2.084A5 5 0 0010 11z" clipRule="evenodd" /></svg>;
+const SettingsIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>;
+const RosterIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" /></svg>;
+const PackageIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" /></svg>;
 const ChecklistIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" /></svg>;
 const CloseIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>;
 const FolderIcon = ({ open }: { open?: boolean }) => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2 text-sky-400 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d={open ? "M5 19a2 2 0 01-2-2V7a2 2 0 012-2h4l2 2h4a2 2 0 012 2v1M5 19h14a2 2 0 002-2v-5a2 2 0 00-2-2H9a2 2 0 00-2 2v5a2 2 0 01-2 2z" : "M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z"} /></svg>;
@@ -353,6 +669,7 @@ const QueuedIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4
 const CodeIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" /></svg>;
 const PreviewIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /><path strokeLinecap="round" strokeLinejoin="round" d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542 7z" /></svg>;
 const PlanIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" /></svg>;
+const ReviewIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-amber-400" viewBox="0 0 20 20" fill="currentColor"><path d="M10 12a2 2 0 100-4 2 2 0 000 4z" /><path fillRule="evenodd" d="M.458 10C1.732 5.943 5.522 3 10 3s8.268 2.943 9.542 7c-1.274 4.057-5.064 7-9.542 7S1.732 14.057.458 10zM14 10a4 4 0 11-8 0 4 4 0 018 0z" clipRule="evenodd" /></svg>;
 const RetryIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h5M20 20v-5h-5M4 4l1.5 1.5A9 9 0 0120.5 15M20 20l-1.5-1.5A9 9 0 003.5 9" /></svg>;
 const UndoIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M11 15l-3-3m0 0l3-3m-3 3h8a5 5 0 015 5v1" /></svg>;
 const RedoIcon = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M13 15l3-3m0 0l-3-3m3 3H5a5 5 0 00-5 5v1" /></svg>;
@@ -375,6 +692,7 @@ const TaskStatusIcon: React.FC<{ status: AgentTaskState }> = ({ status }) => {
     switch (status) {
         case 'Completed': return <CheckCircleIcon />;
         case 'Executing': return <SpinnerIcon className="h-4 w-4" />;
+        case 'AwaitingReview': return <ReviewIcon />;
         case 'Failed': return <XCircleIcon />;
         case 'Blocked': return <BlockIcon />;
         case 'Queued': return <QueuedIcon />;
@@ -413,18 +731,52 @@ const GlobalStyles = () => (
 
 // --- UI COMPONENTS ---
 
-const Header: React.FC = () => (
-    <header className="flex items-center h-10 px-4 bg-gray-900 border-b border-gray-700 shrink-0">
-        <LogoIcon />
-        <span className="ml-2 font-semibold text-lg">Agentic</span>
-    </header>
-);
+const Header: React.FC<{
+    sessions: SessionSummary[];
+    sessionId: string | null;
+    sessionName: string;
+    lastSavedAt: number | null;
+    onSwitchSession: (id: string) => void;
+    onNewSession: () => void;
+    onRenameSession: (name: string) => void;
+    onDeleteSession: () => void;
+}> = ({ sessions, sessionId, sessionName, lastSavedAt, onSwitchSession, onNewSession, onRenameSession, onDeleteSession }) => {
+    const handleRename = () => {
+        const name = window.prompt('Rename session', sessionName);
+        if (name && name.trim()) onRenameSession(name.trim());
+    };
+
+    return (
+        <header className="flex items-center h-10 px-4 bg-gray-900 border-b border-gray-700 shrink-0">
+            <LogoIcon />
+            <span className="ml-2 font-semibold text-lg">Agentic</span>
+            <div className="ml-auto flex items-center space-x-2 text-xs">
+                {lastSavedAt && <span className="text-gray-500">Saved {new Date(lastSavedAt).toLocaleTimeString()}</span>}
+                <select
+                    value={sessionId || ''}
+                    onChange={(e) => onSwitchSession(e.target.value)}
+                    className="bg-gray-800 border border-gray-600 rounded-md px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 max-w-[14rem]"
+                    title="Switch session"
+                >
+                    {sessionId && !sessions.some(s => s.id === sessionId) && <option value={sessionId}>{sessionName}</option>}
+                    {sessions.map(session => <option key={session.id} value={session.id}>{session.id === sessionId ? sessionName : session.name}</option>)}
+                </select>
+                <button onClick={onNewSession} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600" title="Start a new session">New</button>
+                <button onClick={handleRename} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600" title="Rename this session">Rename</button>
+                <button onClick={onDeleteSession} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-red-600" title="Delete this session">Delete</button>
+            </div>
+        </header>
+    );
+};
 
 const ActivityBar: React.FC<{ activeView: string; setActiveView: (view: string) => void; onToggleAgentPanel: () => void; isAgentPanelOpen: boolean; }> = ({ activeView, setActiveView, onToggleAgentPanel, isAgentPanelOpen }) => {
     const views = [
         { id: 'explorer', icon: <ExplorerIcon />, label: 'Explorer' },
         { id: 'source-control', icon: <SourceControlIcon />, label: 'Source Control' },
+        { id: 'dependencies', icon: <PackageIcon />, label: 'Dependencies' },
         { id: 'checklist', icon: <ChecklistIcon />, label: 'Triage Checklist' },
+        { id: 'agents', icon: <RosterIcon />, label: 'Agent Registry' },
+        { id: 'settings', icon: <SettingsIcon />, label: 'Agent Settings' },
     ];
     return (
         <div className="w-12 bg-gray-900 flex flex-col justify-between items-center py-2 shrink-0 border-r border-gray-700">
@@ -477,9 +829,10 @@ interface VirtualizedFileTreeProps {
     openFolders: Set<string>;
     toggleFolder: (path: string) => void;
     modifiedFiles: string[];
+    onOpenDiff: (path: string) => void;
 }
 
-const VirtualizedFileTree: React.FC<VirtualizedFileTreeProps> = ({ files, activeFile, onSelect, openFolders, toggleFolder, modifiedFiles }) => {
+const VirtualizedFileTree: React.FC<VirtualizedFileTreeProps> = ({ files, activeFile, onSelect, openFolders, toggleFolder, modifiedFiles, onOpenDiff }) => {
     const flattenedNodes = useMemo(() => {
         const result: { node: FileNode; level: number }[] = [];
         const flatten = (nodes: FileNode[], level: number) => {
@@ -539,7 +892,7 @@ const VirtualizedFileTree: React.FC<VirtualizedFileTreeProps> = ({ files, active
             <button onClick={() => onSelect(node.path)} className={`w-full h-full text-left flex items-center rounded ${activeFile === node.path ? 'bg-blue-600/30' : 'hover:bg-gray-700/50'} ${isModified ? 'text-yellow-400' : 'text-gray-300'}`} style={{ paddingLeft }}>
                 <FileIcon extension={node.extension} />
                 <span>{node.name}</span>
-                {isModified && <span className="ml-auto mr-4 text-yellow-600 font-bold">M</span>}
+                {isModified && <span onClick={(e) => { e.stopPropagation(); onOpenDiff(node.path); }} className="ml-auto mr-4 text-yellow-600 font-bold hover:text-yellow-400" title="Show changes">M</span>}
             </button>
         );
     };
@@ -566,7 +919,7 @@ const VirtualizedFileTree: React.FC<VirtualizedFileTreeProps> = ({ files, active
     );
 };
 
-const FileExplorer: React.FC<{ files: FileNode[]; activeFile: string | null; onSelect: (path: string) => void; modifiedFiles: string[] }> = ({ files, activeFile, onSelect, modifiedFiles }) => {
+const FileExplorer: React.FC<{ files: FileNode[]; activeFile: string | null; onSelect: (path: string) => void; modifiedFiles: string[]; onOpenDiff: (path: string) => void; }> = ({ files, activeFile, onSelect, modifiedFiles, onOpenDiff }) => {
     const [openFolders, setOpenFolders] = useState(new Set(['/src']));
     const [isOpen, setIsOpen] = useState(true);
 
@@ -589,7 +942,7 @@ const FileExplorer: React.FC<{ files: FileNode[]; activeFile: string | null; onS
             </button>
             {isOpen && (
                  <div className="flex-1 min-h-0 pl-2">
-                    <VirtualizedFileTree files={files} activeFile={activeFile} onSelect={onSelect} openFolders={openFolders} toggleFolder={toggleFolder} modifiedFiles={modifiedFiles} />
+                    <VirtualizedFileTree files={files} activeFile={activeFile} onSelect={onSelect} openFolders={openFolders} toggleFolder={toggleFolder} modifiedFiles={modifiedFiles} onOpenDiff={onOpenDiff} />
                  </div>
             )}
         </div>
@@ -787,27 +1140,354 @@ const ChecklistPanel: React.FC = () => (
     </div>
 );
 
-const SourceControlPanel: React.FC<{ modifiedFiles: string[]; }> = ({ modifiedFiles }) => (
-    <div className="h-full p-2 overflow-y-auto text-white text-sm custom-scrollbar">
-        <div className="mb-4">
+const SourceControlPanel: React.FC<{
+    modifiedFiles: string[];
+    deletedFiles: string[];
+    unstagedFiles: string[];
+    stagedFiles: string[];
+    commits: Commit[];
+    headCommitId: string | null;
+    onCommit: (message: string) => void;
+    onCheckout: (commitId: string) => void;
+    onRevert: (commitId: string) => void;
+    onOpenDiff: (path: string) => void;
+    onStageFile: (path: string) => void;
+    onUnstageFile: (path: string) => void;
+}> = ({ modifiedFiles, deletedFiles, unstagedFiles, stagedFiles, commits, headCommitId, onCommit, onCheckout, onRevert, onOpenDiff, onStageFile, onUnstageFile }) => {
+    const [commitMessage, setCommitMessage] = useState('');
+    const canCommit = modifiedFiles.length > 0 || stagedFiles.length > 0;
+
+    const handleCommit = () => {
+        if (!commitMessage.trim() || !canCommit) return;
+        onCommit(commitMessage.trim());
+        setCommitMessage('');
+    };
+
+    return (
+        <div className="h-full p-2 overflow-y-auto text-white text-sm custom-scrollbar">
+            <div className="mb-4">
+                <textarea
+                    value={commitMessage}
+                    onChange={(e) => setCommitMessage(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleCommit(); }}
+                    placeholder="Commit message (Ctrl+Enter to commit)"
+                    className="w-full p-2 bg-gray-900 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    rows={3}
+                />
+                <button onClick={handleCommit} className="w-full mt-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50" disabled={!canCommit || !commitMessage.trim()}>
+                    {stagedFiles.length > 0 ? 'Commit Staged Changes' : 'Commit Changes'}
+                </button>
+            </div>
+            {stagedFiles.length > 0 && (
+                <CollapsibleSection title="Staged Changes" defaultOpen={true}>
+                    {stagedFiles.map(file => (
+                        <div key={file} className="flex items-center justify-between p-1 rounded hover:bg-gray-700/50">
+                            <button onClick={() => onOpenDiff(file)} className="flex-1 text-left truncate text-green-300" title="Show changes">{file}</button>
+                            <button onClick={() => onUnstageFile(file)} className="px-1 text-gray-400 hover:text-white font-bold" title="Unstage file">−</button>
+                        </div>
+                    ))}
+                </CollapsibleSection>
+            )}
+            <CollapsibleSection title="Changes" defaultOpen={true}>
+                {unstagedFiles.map(file => deletedFiles.includes(file) ? (
+                    // The index only holds file contents, so a deletion is committed with the whole working tree.
+                    <div key={file} className="flex items-center justify-between p-1 rounded hover:bg-gray-700/50">
+                        <button onClick={() => onOpenDiff(file)} className="flex-1 text-left truncate line-through text-red-300" title="Deleted; commit with nothing staged to record it">{file}</button>
+                        <span className="px-1 text-red-400 font-bold" title="Deleted">D</span>
+                    </div>
+                ) : (
+                    <div key={file} className="flex items-center justify-between p-1 rounded hover:bg-gray-700/50">
+                        <button onClick={() => onOpenDiff(file)} className="flex-1 text-left truncate" title="Show changes">{file}</button>
+                        <button onClick={() => onStageFile(file)} className="px-1 text-gray-400 hover:text-white font-bold" title="Stage file">+</button>
+                    </div>
+                ))}
+            </CollapsibleSection>
+            <CollapsibleSection title="History" defaultOpen={true}>
+                {commits.length === 0 ? (
+                    <p className="text-gray-500 text-xs p-2">No commits yet.</p>
+                ) : (
+                    <div className="space-y-1 py-1">
+                        {[...commits].reverse().map(commit => (
+                            <div key={commit.id} className={`p-2 rounded-md ${commit.id === headCommitId ? 'bg-blue-900/40 border border-blue-700' : 'bg-gray-900/40'}`}>
+                                <div className="flex items-center justify-between">
+                                    <span className="font-medium text-gray-200 truncate" title={commit.message}>{commit.message}</span>
+                                    {commit.id === headCommitId && <span className="ml-2 text-xs font-bold text-blue-400 shrink-0">HEAD</span>}
+                                </div>
+                                <div className="text-xs text-gray-400 font-mono">{commit.id} · {commit.author} · {commit.date}</div>
+                                {commit.id !== headCommitId && (
+                                    <div className="flex space-x-2 mt-1">
+                                        <button onClick={() => onCheckout(commit.id)} className="text-xs text-cyan-400 hover:underline" title="Restore this snapshot and move HEAD to it">Checkout</button>
+                                        <button onClick={() => onRevert(commit.id)} className="text-xs text-yellow-400 hover:underline" title="Create a new commit that restores this snapshot">Revert to</button>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CollapsibleSection>
+        </div>
+    );
+};
+
+const MockScriptEditor: React.FC<{ script: ScriptedResponse[]; onChange: (script: ScriptedResponse[]) => void; className: string; }> = ({ script, onChange, className }) => {
+    const [text, setText] = useState(() => JSON.stringify(script, null, 2));
+    const [parseError, setParseError] = useState<string | null>(null);
+    const lastEmittedRef = useRef(script);
+
+    // Pick up scripts replaced from outside (e.g. replaying a recording) without clobbering in-progress typing.
+    useEffect(() => {
+        if (script !== lastEmittedRef.current) {
+            lastEmittedRef.current = script;
+            setText(JSON.stringify(script, null, 2));
+            setParseError(null);
+        }
+    }, [script]);
+
+    const handleChange = (value: string) => {
+        setText(value);
+        try {
+            const parsed = JSON.parse(value);
+            if (!Array.isArray(parsed)) throw new Error('Script must be a JSON array.');
+            setParseError(null);
+            lastEmittedRef.current = parsed;
+            onChange(parsed);
+        } catch (e) {
+            setParseError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    return (
+        <div>
             <textarea
-                placeholder="Commit message"
-                className="w-full p-2 bg-gray-900 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                rows={3}
+                value={text}
+                onChange={(e) => handleChange(e.target.value)}
+                placeholder={'[{ "match": "User Request text or task description", "response": "..." }]'}
+                className={`${className} font-mono`}
+                rows={6}
+                spellCheck={false}
             />
-            <button className="w-full mt-2 px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50" disabled={modifiedFiles.length === 0}>
-                Commit Changes
-            </button>
+            {parseError && <p className="text-xs text-red-400 mt-1">{parseError}</p>}
         </div>
-        <CollapsibleSection title="Changes" defaultOpen={true}>
-            {modifiedFiles.map(file => (
-                <div key={file} className="flex items-center justify-between p-1 rounded hover:bg-gray-700/50">
-                    <span>{file}</span>
+    );
+};
+
+// Lists package.json dependencies and edits them; App reinstalls in the container whenever they change.
+const DependenciesPanel: React.FC<{
+    packageJson: string | undefined;
+    isInstalling: boolean;
+    onChange: (changes: DependencyChange[]) => void;
+}> = ({ packageJson, isInstalling, onChange }) => {
+    const [spec, setSpec] = useState('');
+    const [isDev, setIsDev] = useState(false);
+    const [versionDrafts, setVersionDrafts] = useState<Record<string, string>>({});
+    const inputClass = "px-2 py-1 bg-gray-900 border border-gray-600 rounded-md text-white placeholder-gray-500 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+    let entries: ReturnType<typeof listDependencies> = [];
+    let parseError: string | null = packageJson === undefined ? 'There is no /package.json in the workspace.' : null;
+    if (packageJson !== undefined) {
+        try { entries = listDependencies(packageJson); } catch (e) { parseError = `package.json is not valid JSON: ${e instanceof Error ? e.message : String(e)}`; }
+    }
+
+    const handleAdd = () => {
+        if (!spec.trim()) return;
+        onChange([{ action: 'add', ...splitPackageSpec(spec.trim()), dev: isDev }]);
+        setSpec('');
+    };
+
+    const commitVersion = (name: string, current: string) => {
+        const version = versionDrafts[name]?.trim();
+        setVersionDrafts(prev => { const { [name]: _, ...rest } = prev; return rest; });
+        if (version !== undefined && version !== current) onChange([{ action: 'upgrade', name, version: version || undefined }]);
+    };
+
+    const renderSection = (title: string, dev: boolean) => {
+        const sectionEntries = entries.filter(entry => entry.dev === dev);
+        return (
+            <CollapsibleSection title={`${title} (${sectionEntries.length})`} defaultOpen={true}>
+                <div className="py-1 space-y-1">
+                    {sectionEntries.length === 0 && <p className="text-xs text-gray-500 px-1">None</p>}
+                    {sectionEntries.map(entry => (
+                        <div key={entry.name} className="flex items-center space-x-2 px-1 text-xs">
+                            <span className="flex-1 truncate font-mono" title={entry.name}>{entry.name}</span>
+                            <input
+                                value={versionDrafts[entry.name] ?? entry.version}
+                                onChange={(e) => setVersionDrafts(prev => ({ ...prev, [entry.name]: e.target.value }))}
+                                onBlur={() => commitVersion(entry.name, entry.version)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                                title="Version range; clear it to upgrade to the latest release"
+                                className={`${inputClass} w-24 font-mono`}
+                            />
+                            <button onClick={() => onChange([{ action: 'remove', name: entry.name }])} title={`Remove ${entry.name}`} className="text-gray-400 hover:text-red-400"><CloseIcon /></button>
+                        </div>
+                    ))}
                 </div>
-            ))}
-        </CollapsibleSection>
-    </div>
-);
+            </CollapsibleSection>
+        );
+    };
+
+    return (
+        <div className="h-full p-2 overflow-y-auto text-white text-sm custom-scrollbar">
+            <div className="bg-gray-900/40 p-3 rounded-md space-y-2 mb-2 text-xs">
+                <input value={spec} onChange={(e) => setSpec(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }} placeholder="Package, e.g. zustand or zod@^3.23.0" className={`${inputClass} w-full`} disabled={!!parseError} />
+                <div className="flex items-center justify-between">
+                    <label className="flex items-center space-x-2 cursor-pointer">
+                        <input type="checkbox" checked={isDev} onChange={(e) => setIsDev(e.target.checked)} className="accent-blue-500" />
+                        <span>Dev dependency</span>
+                    </label>
+                    <button onClick={handleAdd} disabled={!spec.trim() || !!parseError} className="px-3 py-1 rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-50">Add</button>
+                </div>
+                {isInstalling && <div className="flex items-center space-x-2 text-yellow-300"><SpinnerIcon className="h-3 w-3" /><span>Installing... (see terminal)</span></div>}
+            </div>
+            {parseError ? <p className="text-xs text-red-400 px-1">{parseError}</p> : <>{renderSection('Dependencies', false)}{renderSection('Dev Dependencies', true)}</>}
+        </div>
+    );
+};
+
+const AgentRegistryPanel: React.FC<{
+    definitions: AgentDefinition[];
+    onSave: (definitions: AgentDefinition[]) => void;
+}> = ({ definitions, onSave }) => {
+    const [draft, setDraft] = useState<AgentDefinition[]>(definitions);
+    const inputClass = "w-full px-2 py-1 bg-gray-900 border border-gray-600 rounded-md text-white placeholder-gray-500 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+    useEffect(() => { setDraft(definitions); }, [definitions]);
+
+    // Blank glob lines are kept while editing, so the textarea doesn't swallow new lines, and dropped on save.
+    const cleaned = useMemo(() => draft.map(definition => ({
+        ...definition,
+        name: definition.name.trim(),
+        model: definition.model?.trim() || undefined,
+        fileGlobs: definition.fileGlobs.map(glob => glob.trim()).filter(Boolean),
+    })), [draft]);
+    const errors = useMemo(() => validateAgentDefinitions(cleaned), [cleaned]);
+    const isDirty = JSON.stringify(cleaned) !== JSON.stringify(definitions);
+
+    const update = (index: number, patch: Partial<AgentDefinition>) => setDraft(prev => prev.map((definition, i) => i === index ? { ...definition, ...patch } : definition));
+    const addAgent = () => setDraft(prev => [...prev, { name: `Agent-${prev.length}`, role: '', systemPrompt: '', fileGlobs: [], color: DEFAULT_AGENT_COLOR, concurrency: 1 }]);
+
+    return (
+        <div className="h-full p-2 overflow-y-auto text-white text-sm custom-scrollbar">
+            <div className="bg-gray-900/40 p-3 rounded-md space-y-2 mb-2 text-xs">
+                <p className="text-gray-400">The planner assigns tasks from each agent's role and files; the system prompt is sent with every request the agent makes. Changes apply to tasks that start after saving.</p>
+                {errors.map(error => <p key={error} className="text-red-400">{error}</p>)}
+                <div className="flex space-x-2">
+                    <button onClick={() => onSave(cleaned)} disabled={!isDirty || errors.length > 0} className="flex-1 px-2 py-1 rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-50">Save</button>
+                    <button onClick={() => setDraft(definitions)} disabled={!isDirty} className="flex-1 px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50">Revert</button>
+                    <button onClick={() => setDraft(DEFAULT_AGENT_DEFINITIONS)} className="flex-1 px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600" title="Replace the draft with the built-in agents">Defaults</button>
+                </div>
+            </div>
+            {draft.map((definition, index) => {
+                const isPlanner = definition.name === PLANNER_AGENT_NAME;
+                return (
+                    <CollapsibleSection key={index} title={definition.name || `Agent ${index + 1}`} defaultOpen={false}>
+                        <div className="bg-gray-900/40 p-3 rounded-md space-y-2 my-2 text-xs">
+                            <div className="flex items-center space-x-2">
+                                <input type="color" value={definition.color} onChange={(e) => update(index, { color: e.target.value })} className="h-6 w-8 bg-transparent cursor-pointer" title="Colour in the agent panel" />
+                                <input value={definition.name} onChange={(e) => update(index, { name: e.target.value })} disabled={isPlanner} placeholder="Name" className={`${inputClass} font-semibold disabled:opacity-60`} title={isPlanner ? 'The planner keeps its name' : 'Letters, digits, "-" and "_"'} />
+                                {!isPlanner && <button onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))} title={`Remove ${definition.name}`} className="text-gray-400 hover:text-red-400"><CloseIcon /></button>}
+                            </div>
+                            <textarea value={definition.role} onChange={(e) => update(index, { role: e.target.value })} rows={3} placeholder="Role, as the planner sees it" className={`${inputClass} resize-y`} />
+                            {!isPlanner && <>
+                                <textarea value={definition.systemPrompt} onChange={(e) => update(index, { systemPrompt: e.target.value })} rows={3} placeholder="System prompt (optional)" className={`${inputClass} resize-y font-mono`} />
+                                <textarea value={definition.fileGlobs.join('\n')} onChange={(e) => update(index, { fileGlobs: e.target.value.split('\n') })} rows={2} placeholder={'File globs, one per line, e.g. **/*.css\nEmpty means any file; "!" excludes.'} className={`${inputClass} resize-y font-mono`} />
+                                <div className="flex items-center space-x-2">
+                                    <input value={definition.model || ''} onChange={(e) => update(index, { model: e.target.value })} placeholder="Model (optional)" className={inputClass} title="Used unless the agent has its own provider settings" />
+                                    <input type="number" min={1} value={definition.concurrency} onChange={(e) => update(index, { concurrency: Number(e.target.value) })} className={`${inputClass} w-16`} title="Tasks it may execute at once" />
+                                </div>
+                                <label className="flex items-center space-x-2 cursor-pointer">
+                                    <input type="checkbox" checked={!!definition.runsTests} onChange={(e) => update(index, { runsTests: e.target.checked || undefined })} className="accent-blue-500" />
+                                    <span>Run the test suite after its tasks</span>
+                                </label>
+                                <label className="flex items-center space-x-2 cursor-pointer">
+                                    <input type="checkbox" checked={!!definition.generatesImages} onChange={(e) => update(index, { generatesImages: e.target.checked || undefined })} className="accent-blue-500" />
+                                    <span>Generate images for logo and placeholder tasks</span>
+                                </label>
+                            </>}
+                        </div>
+                    </CollapsibleSection>
+                );
+            })}
+            <button onClick={addAgent} className="w-full mt-2 px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-xs">Add agent</button>
+        </div>
+    );
+};
+
+const SettingsPanel: React.FC<{
+    agentNames: string[];
+    providerSettings: Record<string, ProviderConfig>;
+    onChange: (agentName: string, config: ProviderConfig) => void;
+    onApplyToAll: (config: ProviderConfig) => void;
+    rememberApiKeys: boolean;
+    onToggleRememberApiKeys: () => void;
+    isRecording: boolean;
+    recordedCount: number;
+    onToggleRecording: () => void;
+    onDownloadRecording: () => void;
+    onReplayRecording: () => void;
+    onClearRecording: () => void;
+}> = ({ agentNames, providerSettings, onChange, onApplyToAll, rememberApiKeys, onToggleRememberApiKeys, isRecording, recordedCount, onToggleRecording, onDownloadRecording, onReplayRecording, onClearRecording }) => {
+    const inputClass = "w-full px-2 py-1 bg-gray-900 border border-gray-600 rounded-md text-white placeholder-gray-500 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500";
+    return (
+        <div className="h-full p-2 overflow-y-auto text-white text-sm custom-scrollbar">
+            <CollapsibleSection title="Model Providers" defaultOpen={true}>
+                <div className="space-y-3 py-2">
+                    <div className="bg-gray-900/40 p-3 rounded-md space-y-1 text-xs">
+                        <label className="flex items-center space-x-2 cursor-pointer">
+                            <input type="checkbox" checked={rememberApiKeys} onChange={onToggleRememberApiKeys} className="accent-blue-500" />
+                            <span>Remember API keys in this browser</span>
+                        </label>
+                        <p className={rememberApiKeys ? 'text-yellow-400' : 'text-gray-400'}>
+                            {rememberApiKeys ? 'Keys are stored unencrypted in localStorage, where any script on this page and anyone with access to this browser profile can read them.' : 'Keys are kept for this tab only and must be entered again after it closes.'}
+                        </p>
+                    </div>
+                    {agentNames.map(agentName => {
+                        const config = providerSettings[agentName] || DEFAULT_PROVIDER_CONFIGS.gemini;
+                        const update = (patch: Partial<ProviderConfig>) => onChange(agentName, { ...config, ...patch });
+                        return (
+                            <div key={agentName} className="bg-gray-900/40 p-3 rounded-md space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <span className="font-semibold text-blue-400">{agentName}</span>
+                                    <button onClick={() => onApplyToAll(config)} className="text-xs text-gray-400 hover:text-white hover:underline" title="Use this provider for every agent">Apply to all</button>
+                                </div>
+                                <select
+                                    value={config.kind}
+                                    onChange={(e) => onChange(agentName, { ...DEFAULT_PROVIDER_CONFIGS[e.target.value as ProviderKind] })}
+                                    className={inputClass}
+                                >
+                                    {(Object.keys(PROVIDER_KIND_LABELS) as ProviderKind[]).map(kind => <option key={kind} value={kind}>{PROVIDER_KIND_LABELS[kind]}</option>)}
+                                </select>
+                                <input value={config.model} onChange={(e) => update({ model: e.target.value })} placeholder="Model" className={inputClass} />
+                                {(config.kind === 'openai' || config.kind === 'ollama') && (
+                                    <input value={config.baseUrl || ''} onChange={(e) => update({ baseUrl: e.target.value })} placeholder="Base URL" className={inputClass} />
+                                )}
+                                {config.kind === 'mock' && (
+                                    <MockScriptEditor script={config.script || []} onChange={(script) => update({ script })} className={inputClass} />
+                                )}
+                                {(config.kind === 'gemini' || config.kind === 'openai') && (
+                                    <input type="password" value={config.apiKey || ''} onChange={(e) => update({ apiKey: e.target.value })} placeholder={config.kind === 'gemini' ? 'API key (defaults to GEMINI_API_KEY)' : 'API key'} className={inputClass} />
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </CollapsibleSection>
+            <CollapsibleSection title="Offline Replay" defaultOpen={true}>
+                <div className="bg-gray-900/40 p-3 rounded-md space-y-2 my-2 text-xs">
+                    <p className="text-gray-400">Record live responses during a run, then replay them through the mock provider to rerun the plan offline.</p>
+                    <label className="flex items-center space-x-2 cursor-pointer">
+                        <input type="checkbox" checked={isRecording} onChange={onToggleRecording} className="accent-blue-500" />
+                        <span>Record responses ({recordedCount} captured)</span>
+                    </label>
+                    <div className="flex space-x-2">
+                        <button onClick={onReplayRecording} disabled={recordedCount === 0} className="flex-1 px-2 py-1 rounded-md bg-blue-600 hover:bg-blue-700 disabled:opacity-50" title="Switch every agent to the mock provider with this recording">Replay</button>
+                        <button onClick={onDownloadRecording} disabled={recordedCount === 0} className="flex-1 px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50">Download</button>
+                        <button onClick={onClearRecording} disabled={recordedCount === 0} className="flex-1 px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50">Clear</button>
+                    </div>
+                </div>
+            </CollapsibleSection>
+        </div>
+    );
+};
 
 const Sidebar: React.FC<{
     activeView: string;
@@ -815,14 +1495,126 @@ const Sidebar: React.FC<{
     activeFile: string | null;
     onSelectFile: (path: string) => void;
     modifiedFiles: string[];
+    deletedFiles: string[];
+    commits: Commit[];
+    headCommitId: string | null;
+    onCommit: (message: string) => void;
+    onCheckout: (commitId: string) => void;
+    onRevert: (commitId: string) => void;
+    unstagedFiles: string[];
+    stagedFiles: string[];
+    onOpenDiff: (path: string) => void;
+    onStageFile: (path: string) => void;
+    onUnstageFile: (path: string) => void;
+    packageJson: string | undefined;
+    isInstallingDependencies: boolean;
+    onDependencyChanges: (changes: DependencyChange[]) => void;
+    agentDefinitions: AgentDefinition[];
+    onSaveAgentDefinitions: (definitions: AgentDefinition[]) => void;
+    agentNames: string[];
+    providerSettings: Record<string, ProviderConfig>;
+    onChangeProvider: (agentName: string, config: ProviderConfig) => void;
+    onApplyProviderToAll: (config: ProviderConfig) => void;
+    rememberApiKeys: boolean;
+    onToggleRememberApiKeys: () => void;
+    isRecording: boolean;
+    recordedCount: number;
+    onToggleRecording: () => void;
+    onDownloadRecording: () => void;
+    onReplayRecording: () => void;
+    onClearRecording: () => void;
 }> = (props) => (
     <div className="w-64 bg-gray-800 text-white flex-shrink-0 border-r border-gray-700">
-        {props.activeView === 'explorer' && <FileExplorer files={props.files} activeFile={props.activeFile} onSelect={props.onSelectFile} modifiedFiles={props.modifiedFiles} />}
-        {props.activeView === 'source-control' && <SourceControlPanel modifiedFiles={props.modifiedFiles} />}
+        {props.activeView === 'explorer' && <FileExplorer files={props.files} activeFile={props.activeFile} onSelect={props.onSelectFile} modifiedFiles={props.modifiedFiles} onOpenDiff={props.onOpenDiff} />}
+        {props.activeView === 'source-control' && <SourceControlPanel
+            modifiedFiles={props.modifiedFiles} deletedFiles={props.deletedFiles} unstagedFiles={props.unstagedFiles} stagedFiles={props.stagedFiles}
+            commits={props.commits} headCommitId={props.headCommitId} onCommit={props.onCommit} onCheckout={props.onCheckout} onRevert={props.onRevert}
+            onOpenDiff={props.onOpenDiff} onStageFile={props.onStageFile} onUnstageFile={props.onUnstageFile}
+        />}
+        {props.activeView === 'dependencies' && <DependenciesPanel packageJson={props.packageJson} isInstalling={props.isInstallingDependencies} onChange={props.onDependencyChanges} />}
         {props.activeView === 'checklist' && <ChecklistPanel />}
+        {props.activeView === 'agents' && <AgentRegistryPanel definitions={props.agentDefinitions} onSave={props.onSaveAgentDefinitions} />}
+        {props.activeView === 'settings' && <SettingsPanel
+            agentNames={props.agentNames} providerSettings={props.providerSettings} onChange={props.onChangeProvider} onApplyToAll={props.onApplyProviderToAll}
+            rememberApiKeys={props.rememberApiKeys} onToggleRememberApiKeys={props.onToggleRememberApiKeys}
+            isRecording={props.isRecording} recordedCount={props.recordedCount} onToggleRecording={props.onToggleRecording}
+            onDownloadRecording={props.onDownloadRecording} onReplayRecording={props.onReplayRecording} onClearRecording={props.onClearRecording}
+        />}
     </div>
 );
 
+const DiffView: React.FC<{
+    path: string;
+    original: string;
+    modified: string;
+    originalLabel: string;
+    onStage: (stagedContent: string) => void;
+    onDiscard: (workingContent: string) => void;
+    onClose: () => void;
+}> = ({ path, original, modified, originalLabel, onStage, onDiscard, onClose }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const diffEditorRef = useRef<monaco.editor.IStandaloneDiffEditor | null>(null);
+    const [hunks, setHunks] = useState<DiffHunk[]>([]);
+
+    useEffect(() => {
+        if (!containerRef.current) return;
+        const language = getLanguageForExtension(getFileExtension(path));
+        const originalModel = monaco.editor.createModel(original, language);
+        const modifiedModel = monaco.editor.createModel(modified, language);
+        const diffEditor = monaco.editor.createDiffEditor(containerRef.current, { theme: 'vs-dark', automaticLayout: true, readOnly: true, originalEditable: false, renderSideBySide: true });
+        diffEditor.setModel({ original: originalModel, modified: modifiedModel });
+        const listener = diffEditor.onDidUpdateDiff(() => setHunks(diffEditor.getLineChanges() || []));
+        diffEditorRef.current = diffEditor;
+        return () => {
+            listener.dispose();
+            diffEditor.dispose();
+            originalModel.dispose();
+            modifiedModel.dispose();
+            diffEditorRef.current = null;
+        };
+    }, [path]);
+
+    useEffect(() => {
+        const model = diffEditorRef.current?.getModel();
+        if (!model) return;
+        if (model.original.getValue() !== original) model.original.setValue(original);
+        if (model.modified.getValue() !== modified) model.modified.setValue(modified);
+    }, [original, modified]);
+
+    const describeHunk = (hunk: DiffHunk) => {
+        const range = (start: number, end: number) => end === 0 ? `${start},0` : `${start},${end - start + 1}`;
+        return `@@ -${range(hunk.originalStartLineNumber, hunk.originalEndLineNumber)} +${range(hunk.modifiedStartLineNumber, hunk.modifiedEndLineNumber)} @@`;
+    };
+
+    const stageHunk = (hunk: DiffHunk) => onStage(spliceHunk(original, modified, hunk.originalStartLineNumber, hunk.originalEndLineNumber, hunk.modifiedStartLineNumber, hunk.modifiedEndLineNumber));
+    const discardHunk = (hunk: DiffHunk) => onDiscard(spliceHunk(modified, original, hunk.modifiedStartLineNumber, hunk.modifiedEndLineNumber, hunk.originalStartLineNumber, hunk.originalEndLineNumber));
+
+    return (
+        <div className="absolute inset-0 z-10 flex flex-col bg-gray-800">
+            <div className="flex items-center justify-between bg-gray-900 text-sm border-b border-gray-700 px-4 py-2 shrink-0">
+                <span className="text-gray-300"><span className="font-semibold">{path}</span> <span className="text-gray-500">({originalLabel} ↔ Working Tree)</span></span>
+                <button onClick={onClose} title="Close diff" className="p-1 text-gray-400 hover:bg-red-500/50 hover:text-white rounded-sm"><CloseIcon /></button>
+            </div>
+            <div className="flex flex-wrap gap-2 px-4 py-2 bg-gray-900/60 border-b border-gray-700 text-xs shrink-0">
+                {hunks.length === 0 ? <span className="text-gray-500">No differences.</span> : hunks.map((hunk, index) => (
+                    <div key={index} className="flex items-center bg-gray-700/60 rounded-md overflow-hidden">
+                        <button
+                            onClick={() => diffEditorRef.current?.getModifiedEditor().revealLineInCenter(Math.max(hunk.modifiedStartLineNumber, 1))}
+                            className="px-2 py-1 font-mono text-cyan-300 hover:bg-gray-600"
+                            title="Reveal hunk"
+                        >
+                            {describeHunk(hunk)}
+                        </button>
+                        <button onClick={() => stageHunk(hunk)} className="px-2 py-1 text-green-400 hover:bg-green-900/50" title="Stage this hunk">Stage</button>
+                        <button onClick={() => discardHunk(hunk)} className="px-2 py-1 text-red-400 hover:bg-red-900/50" title="Discard this hunk from the working tree">Discard</button>
+                    </div>
+                ))}
+            </div>
+            <div ref={containerRef} className="flex-1 min-h-0"></div>
+        </div>
+    );
+};
+
 const EditorPanel: React.FC<{
     openFiles: string[];
     activeFile: string | null;
@@ -832,21 +1624,48 @@ const EditorPanel: React.FC<{
     onSave: (path: string, content: string) => void;
     codeToInsert: { id: string, code: string } | null;
     onInsertionComplete: () => void;
-}> = ({ openFiles, activeFile, files, onSelectFile, onCloseFile, onSave, codeToInsert, onInsertionComplete }) => {
+    diff: { path: string; original: string; originalLabel: string } | null;
+    onStageDiff: (path: string, stagedContent: string) => void;
+    onDiscardDiff: (path: string, workingContent: string) => void;
+    onCloseDiff: () => void;
+    liveOutput: LiveOutput | null; // An agent response streaming for the active file, shown read-only instead of it
+    onAbortTask: (taskId: string) => void;
+}> = ({ openFiles, activeFile, files, onSelectFile, onCloseFile, onSave, codeToInsert, onInsertionComplete, diff, onStageDiff, onDiscardDiff, onCloseDiff, liveOutput, onAbortTask }) => {
     const editorRef = useRef<HTMLDivElement>(null);
     const monacoInstanceRef = useRef<monaco.editor.IStandaloneCodeEditor | null>(null);
     const modelsRef = useRef(new Map<string, monaco.editor.ITextModel>());
+    const syncedContentRef = useRef(new Map<string, string>()); // Last file content pushed into each model
+    const liveModelRef = useRef<{ taskId: string; model: monaco.editor.ITextModel } | null>(null);
 
     useEffect(() => {
         if (editorRef.current && !monacoInstanceRef.current) {
             monacoInstanceRef.current = monaco.editor.create(editorRef.current, { theme: 'vs-dark', automaticLayout: true, wordWrap: 'on' });
             monacoInstanceRef.current.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
+                if (monacoInstanceRef.current?.getModel() === liveModelRef.current?.model) return; // Never save a stream over the file
                 if (activeFile && monacoInstanceRef.current) onSave(activeFile, monacoInstanceRef.current.getValue());
             });
         }
-        return () => { monacoInstanceRef.current?.dispose(); monacoInstanceRef.current = null; };
+        return () => { monacoInstanceRef.current?.dispose(); monacoInstanceRef.current = null; liveModelRef.current?.model.dispose(); };
     }, []);
 
+    // Appends streamed text to a throwaway model rather than resetting it, so the view follows the stream smoothly.
+    const syncLiveModel = (output: LiveOutput): monaco.editor.ITextModel => {
+        if (liveModelRef.current?.taskId !== output.taskId) {
+            liveModelRef.current?.model.dispose();
+            const language = getLanguageForExtension(activeFile?.split('.').pop());
+            liveModelRef.current = { taskId: output.taskId, model: monaco.editor.createModel('', language, monaco.Uri.parse(`agent-stream:///${output.taskId}`)) };
+        }
+        const model = liveModelRef.current.model;
+        const current = model.getValue();
+        if (output.text.startsWith(current)) {
+            const end = model.getFullModelRange().getEndPosition();
+            model.applyEdits([{ range: new monaco.Range(end.lineNumber, end.column, end.lineNumber, end.column), text: output.text.slice(current.length) }]);
+        } else {
+            model.setValue(output.text);
+        }
+        return model;
+    };
+
     useEffect(() => {
         if (!monacoInstanceRef.current) return;
     
@@ -856,6 +1675,11 @@ const EditorPanel: React.FC<{
                 const language = getLanguageForExtension(file.extension);
                 const newModel = monaco.editor.createModel(file.content || '', language, monaco.Uri.parse(path));
                 modelsRef.current.set(path, newModel);
+                syncedContentRef.current.set(path, file.content || '');
+            } else if (file && syncedContentRef.current.get(path) !== (file.content || '')) {
+                // The file changed outside the editor (agent write, checkout, save formatting).
+                modelsRef.current.get(path)?.setValue(file.content || '');
+                syncedContentRef.current.set(path, file.content || '');
             }
         });
     
@@ -864,14 +1688,23 @@ const EditorPanel: React.FC<{
             if (!openFilesSet.has(path)) {
                 model.dispose();
                 modelsRef.current.delete(path);
+                syncedContentRef.current.delete(path);
             }
         });
     
-        const currentModel = activeFile ? modelsRef.current.get(activeFile) : null;
+        let currentModel = activeFile ? modelsRef.current.get(activeFile) : null;
+        if (liveOutput) {
+            currentModel = syncLiveModel(liveOutput);
+        } else if (liveModelRef.current) {
+            liveModelRef.current.model.dispose();
+            liveModelRef.current = null;
+        }
+        monacoInstanceRef.current.updateOptions({ readOnly: !!liveOutput });
         if (monacoInstanceRef.current.getModel() !== currentModel) {
             monacoInstanceRef.current.setModel(currentModel || null);
         }
-    }, [activeFile, openFiles, files, onSave]);
+        if (liveOutput && currentModel) monacoInstanceRef.current.revealLine(currentModel.getLineCount());
+    }, [activeFile, openFiles, files, onSave, liveOutput]);
 
     useEffect(() => {
         if (codeToInsert && monacoInstanceRef.current) {
@@ -888,12 +1721,26 @@ const EditorPanel: React.FC<{
         }
     }, [codeToInsert, onInsertionComplete]);
 
+    const diffView = diff && (
+        <DiffView
+            key={diff.path}
+            path={diff.path}
+            original={diff.original}
+            modified={findFileNode(diff.path, files)?.content || ''}
+            originalLabel={diff.originalLabel}
+            onStage={(content) => onStageDiff(diff.path, content)}
+            onDiscard={(content) => onDiscardDiff(diff.path, content)}
+            onClose={onCloseDiff}
+        />
+    );
+
     if (openFiles.length === 0) {
-        return <div className="flex-1 bg-gray-800 flex items-center justify-center text-gray-500">Select a file to open</div>;
+        return <div className="flex-1 bg-gray-800 flex items-center justify-center text-gray-500 relative h-full">Select a file to open{diffView}</div>;
     }
 
     return (
-        <div className="flex-1 flex flex-col bg-gray-800 h-full">
+        <div className="flex-1 flex flex-col bg-gray-800 h-full relative">
+            {diffView}
             <div className="flex justify-between items-stretch bg-gray-900 text-sm shrink-0 border-b border-gray-700">
                 <div className="flex-1 flex overflow-x-auto custom-scrollbar min-w-0">
                     {openFiles.map(path => {
@@ -929,168 +1776,249 @@ const EditorPanel: React.FC<{
                     </button>
                 </div>
             </div>
+            {liveOutput && (
+                <div className="flex items-center justify-between px-3 py-1 bg-yellow-900/40 border-b border-yellow-700/50 text-xs text-yellow-200 shrink-0">
+                    <span className="animate-pulse">{liveOutput.agent} is writing changes for this file (live, read-only)...</span>
+                    <button onClick={() => onAbortTask(liveOutput.taskId)} className="px-2 py-0.5 rounded-md bg-red-800 hover:bg-red-700 text-white">Abort task</button>
+                </div>
+            )}
             <div ref={editorRef} className="flex-1 w-full h-full min-h-0"></div>
         </div>
     );
 };
 
-const PreviewPanel: React.FC<{ files: FileNode[], addLog: (source: string, message: string) => void }> = ({ files, addLog }) => {
-    const [status, setStatus] = useState<'booting' | 'installing' | 'running' | 'error'>('booting');
-    const [errorMessage, setErrorMessage] = useState<string | null>(null);
-    const [url, setUrl] = useState('');
-    const webContainerInstanceRef = useRef<WebContainer | null>(null);
-    const isBootedRef = useRef(false);
-    const containerFileContentRef = useRef<Record<string, string>>({});
-
-    useEffect(() => {
-        const bootWebContainer = async () => {
-            if (webContainerInstanceRef.current) return;
-            setStatus('booting');
-            addLog('Preview', 'Booting WebContainer...');
-            try {
-                const wc = await WebContainer.boot();
-                webContainerInstanceRef.current = wc;
-
-                wc.on('server-ready', (_, url) => { setUrl(url); setStatus('running'); addLog('Preview', `Server is ready at ${url}`); });
-                wc.on('error', (error) => { const message = `WebContainer error: ${error.message}`; setStatus('error'); setErrorMessage(message); addLog('Preview', message); });
-
-                const fileSystemTree = {};
-                const initialContent: Record<string, string> = {};
-                const processNode = (node: FileNode, currentPath: object) => {
-                    if (node.type === 'file' && node.content !== undefined) {
-                        currentPath[node.name] = { file: { contents: node.content } };
-                        initialContent[node.path] = node.content;
-                    }
-                    else if (node.type === 'folder' && node.children) {
-                        const newDir = {}; currentPath[node.name] = { directory: newDir };
-                        node.children.forEach(child => processNode(child, newDir));
-                    }
-                };
-                files.forEach(node => processNode(node, fileSystemTree));
-                await wc.mount(fileSystemTree);
-                containerFileContentRef.current = initialContent;
-
-
-                setStatus('installing');
-                addLog('Preview', 'Installing dependencies...');
-                const installProcess = await wc.spawn('npm', ['install']);
-                installProcess.output.pipeTo(new WritableStream({ write(data) { addLog('npm', data); } }));
-                const installExitCode = await installProcess.exit;
-
-                if (installExitCode !== 0) {
-                    const message = `npm install failed with exit code ${installExitCode}. See terminal for details.`;
-                    setStatus('error'); setErrorMessage(message); addLog('Preview', message);
-                    return;
-                }
-                addLog('Preview', 'Dependencies installed. Starting dev server...');
+// One scaled iframe at a fixed CSS size. The iframe is laid out at its real size and scaled down (or up) with a
+// transform, so media queries see the device width rather than the zoomed one.
+const DeviceFrame: React.FC<{
+    url: string;
+    label: string;
+    width: number;
+    height: number;
+    scale: number;
+    iframeRef?: { current: HTMLIFrameElement | null };
+}> = ({ url, label, width, height, scale, iframeRef }) => (
+    <div className="flex flex-col items-center shrink-0">
+        <div className="text-xs text-gray-400 mb-1">{label} · {width} × {height} · {Math.round(scale * 100)}%</div>
+        <div style={{ width: width * scale, height: height * scale }} className="relative overflow-hidden rounded-md shadow-lg ring-1 ring-gray-600 bg-white">
+            <iframe ref={iframeRef} src={url} style={{ width, height, transform: `scale(${scale})`, transformOrigin: 'top left' }} className="absolute top-0 left-0 border-0 bg-white" title={`Application Preview (${label})`} sandbox="allow-scripts allow-same-origin allow-forms allow-modals allow-popups" />
+        </div>
+    </div>
+);
 
-                const devProcess = await wc.spawn('npm', ['run', 'dev']);
-                devProcess.output.pipeTo(new WritableStream({ write(data) { addLog('vite', data); } }));
-                isBootedRef.current = true;
+// Shows the dev server of the shared WebContainer; the container itself lives in ContainerService, so this panel
+// can unmount freely. `onPreviewMessage` receives console output and errors forwarded by the bridge script.
+const PreviewPanel: React.FC<{
+    containerState: ContainerState;
+    onStartContainer: () => void;
+    onPreviewMessage?: (message: PreviewMessage) => void;
+}> = ({ containerState, onStartContainer, onPreviewMessage }) => {
+    const { status, url, error: errorMessage } = containerState;
+    const [presetId, setPresetId] = useState('responsive'); // A VIEWPORT_PRESETS id, 'responsive' or 'custom'
+    const [customSize, setCustomSize] = useState({ width: 800, height: 600 });
+    const [isRotated, setIsRotated] = useState(false);
+    const [zoom, setZoom] = useState<number | 'fit'>('fit');
+    const [isMultiViewport, setIsMultiViewport] = useState(false);
+    const [stageSize, setStageSize] = useState({ width: 0, height: 0 });
+    const stageRef = useRef<HTMLDivElement>(null);
+    // Only the first frame forwards console output, so multi-viewport mode doesn't log everything several times.
+    const iframeRef = useRef<HTMLIFrameElement>(null);
 
-            } catch (error) {
-                const message = `WebContainer boot failed: ${error instanceof Error ? error.message : String(error)}`;
-                setStatus('error'); setErrorMessage(message); addLog('Preview', message);
-            }
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            if (event.source !== iframeRef.current?.contentWindow || !isPreviewMessage(event.data)) return;
+            onPreviewMessage?.(event.data);
         };
-        bootWebContainer();
-        return () => { webContainerInstanceRef.current?.teardown(); webContainerInstanceRef.current = null; };
-    }, []);
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, [onPreviewMessage]);
 
     useEffect(() => {
-        if (!isBootedRef.current) return;
-        const wc = webContainerInstanceRef.current;
-        if (!wc) return;
-    
-        const updateChangedFiles = async () => {
-            const newFileContent: Record<string, string> = {};
-            const collectFiles = (nodes: FileNode[]) => {
-                nodes.forEach(node => {
-                    if (node.type === 'file' && node.content !== undefined) {
-                        newFileContent[node.path] = node.content;
-                    }
-                    if (node.children) {
-                        collectFiles(node.children);
-                    }
-                });
-            };
-            collectFiles(files);
-            
-            const promises: Promise<void>[] = [];
-            const updatedPaths: string[] = [];
-    
-            for (const path in newFileContent) {
-                if (containerFileContentRef.current[path] !== newFileContent[path]) {
-                    promises.push(wc.fs.writeFile(path, newFileContent[path]));
-                    updatedPaths.push(path.split('/').pop() || path);
-                }
-            }
-    
-            for (const path in containerFileContentRef.current) {
-                if (!(path in newFileContent)) {
-                     promises.push(wc.fs.rm(path));
-                     updatedPaths.push(`(deleted) ${path.split('/').pop() || path}`);
-                }
-            }
-            
-            if (promises.length > 0) {
-                addLog('Preview', `Syncing ${promises.length} file change(s): ${updatedPaths.slice(0, 3).join(', ')}${updatedPaths.length > 3 ? '...' : ''}`);
-                try {
-                    await Promise.all(promises);
-                    containerFileContentRef.current = newFileContent;
-                } catch (e) {
-                    addLog('Preview', `Error syncing files: ${e.message}`);
-                }
-            }
+        const measureStage = () => {
+            if (stageRef.current) setStageSize({ width: stageRef.current.clientWidth, height: stageRef.current.clientHeight });
         };
-    
-        updateChangedFiles();
-    }, [files, addLog]);
+        measureStage();
+        const resizeObserver = new ResizeObserver(measureStage);
+        if (stageRef.current) resizeObserver.observe(stageRef.current);
+        return () => resizeObserver.disconnect();
+    }, []);
+
+    const orient = (size: { width: number; height: number }) => isRotated ? { width: size.height, height: size.width } : size;
+    const frames = isMultiViewport
+        ? MULTI_VIEWPORT_PRESET_IDS.map(id => VIEWPORT_PRESETS.find(preset => preset.id === id)!).map(preset => ({ label: preset.label, ...orient(preset) }))
+        : presetId === 'responsive' ? []
+        : presetId === 'custom' ? [{ label: 'Custom', ...orient(customSize) }]
+        : [VIEWPORT_PRESETS.find(preset => preset.id === presetId)!].map(preset => ({ label: preset.label, ...orient(preset) }));
+
+    // 'fit' shrinks every frame by the same factor until the row fits the stage, but never enlarges.
+    const availableWidth = stageSize.width - VIEWPORT_GAP * (frames.length + 1);
+    const availableHeight = stageSize.height - VIEWPORT_GAP * 2 - 20; // Minus the frame labels
+    const fitScale = Math.max(0.1, Math.min(1, availableWidth / frames.reduce((sum, frame) => sum + frame.width, 0), availableHeight / Math.max(...frames.map(frame => frame.height), 1)));
+    const scale = zoom === 'fit' ? fitScale : zoom;
+    const isResponsive = frames.length === 0;
 
     const StatusDisplay = () => (
         <div className="absolute inset-0 bg-gray-800 flex flex-col items-center justify-center text-white p-4 text-center">
             {status === 'error' ? (
                 <div className="w-full max-w-lg"><ErrorIconFallback /><h2 className="mt-4 text-xl font-bold text-red-400">Preview Environment Error</h2><p className="text-gray-400 mb-4">The live preview failed to start. Check the terminal for details.</p><pre className="mt-2 bg-gray-900 text-left p-4 rounded-md text-sm text-red-300 overflow-auto w-full custom-scrollbar"><code>{errorMessage}</code></pre></div>
-            ) : ( <><div className="h-16 w-16"><SpinnerIcon /></div><p className="mt-4 text-lg animate-pulse">{status.charAt(0).toUpperCase() + status.slice(1)}...</p></> )}
-        </div>
-    );
-    
-    return (
-        <div className="flex-1 bg-gray-800 relative h-full">
-            {status !== 'running' && <StatusDisplay />}
-            <iframe src={url} className={`w-full h-full bg-white transition-opacity duration-500 ${status === 'running' ? 'opacity-100' : 'opacity-0'}`} title="Application Preview" sandbox="allow-scripts allow-same-origin allow-forms allow-modals allow-popups" />
+            ) : status === 'stopped' ? (
+                <><p className="text-lg text-gray-400">The preview environment is stopped.</p><button onClick={onStartContainer} className="mt-4 px-4 py-2 text-sm rounded-md bg-blue-600 hover:bg-blue-500">Start</button></>
+            ) : ( <><div className="h-16 w-16"><SpinnerIcon /></div><p className="mt-4 text-lg animate-pulse">{CONTAINER_STATUS_LABELS[status]}...</p></> )}
         </div>
     );
-};
+
+    const controlClass = "px-2 py-1 bg-gray-900 border border-gray-600 rounded-md text-white text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50";
+    const toggleClass = (active: boolean) => `px-2 py-1 rounded-md text-xs ${active ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'} disabled:opacity-50`;
+
+    return (
+        <div className="flex-1 bg-gray-800 h-full flex flex-col">
+            <div className="shrink-0 flex flex-wrap items-center gap-2 px-3 py-2 border-b border-gray-700 bg-gray-900/60">
+                <select value={presetId} onChange={(e) => setPresetId(e.target.value)} disabled={isMultiViewport} className={controlClass} aria-label="Device">
+                    <option value="responsive">Responsive</option>
+                    {VIEWPORT_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label} ({preset.width} × {preset.height})</option>)}
+                    <option value="custom">Custom size</option>
+                </select>
+                {presetId === 'custom' && !isMultiViewport && (
+                    <div className="flex items-center space-x-1 text-xs text-gray-400">
+                        <input type="number" min={200} max={3840} value={customSize.width} onChange={(e) => setCustomSize(prev => ({ ...prev, width: Number(e.target.value) || prev.width }))} className={`${controlClass} w-20`} aria-label="Width" />
+                        <span>×</span>
+                        <input type="number" min={200} max={3840} value={customSize.height} onChange={(e) => setCustomSize(prev => ({ ...prev, height: Number(e.target.value) || prev.height }))} className={`${controlClass} w-20`} aria-label="Height" />
+                    </div>
+                )}
+                <button onClick={() => setIsRotated(prev => !prev)} disabled={isResponsive} className={toggleClass(isRotated)} title="Swap width and height">Rotate</button>
+                <select value={String(zoom)} onChange={(e) => setZoom(e.target.value === 'fit' ? 'fit' : Number(e.target.value))} disabled={isResponsive} className={controlClass} aria-label="Zoom">
+                    <option value="fit">Fit</option>
+                    {ZOOM_LEVELS.map(level => <option key={level} value={level}>{level * 100}%</option>)}
+                </select>
+                <button onClick={() => setIsMultiViewport(prev => !prev)} className={toggleClass(isMultiViewport)} title="Show phone, tablet and desktop side by side">Multi-viewport</button>
+            </div>
+            <div ref={stageRef} className="flex-1 min-h-0 relative overflow-auto custom-scrollbar">
+                {status !== 'running' && <StatusDisplay />}
+                {url && (isResponsive ? (
+                    <iframe ref={iframeRef} src={url} className={`w-full h-full bg-white transition-opacity duration-500 ${status === 'running' ? 'opacity-100' : 'opacity-0'}`} title="Application Preview" sandbox="allow-scripts allow-same-origin allow-forms allow-modals allow-popups" />
+                ) : (
+                    <div className="min-w-full min-h-full w-max flex items-start justify-center" style={{ gap: VIEWPORT_GAP, padding: VIEWPORT_GAP }}>
+                        {frames.map((frame, index) => (
+                            <DeviceFrame key={`${frame.label}-${index}`} url={url} label={frame.label} width={frame.width} height={frame.height} scale={scale} iframeRef={index === 0 ? iframeRef : undefined} />
+                        ))}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// Status and lifecycle buttons for the shared WebContainer, shown in the main tab bar.
+const ContainerControls: React.FC<{
+    state: ContainerState;
+    onStart: () => void;
+    onRestart: () => void;
+    onStop: () => void;
+}> = ({ state, onStart, onRestart, onStop }) => {
+    const dotColor = { stopped: 'bg-gray-500', error: 'bg-red-500', running: 'bg-green-500' }[state.status] || 'bg-yellow-400 animate-pulse';
+    const buttonClass = 'px-2 py-0.5 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200';
+    return (
+        <div className="ml-auto flex items-center space-x-2 px-3 text-xs text-gray-400" title={state.error || state.url || undefined}>
+            <span className={`h-2 w-2 rounded-full ${dotColor}`}></span>
+            <span>WebContainer: {CONTAINER_STATUS_LABELS[state.status]}</span>
+            {state.status === 'stopped' ? (
+                <button onClick={onStart} className={buttonClass}>Start</button>
+            ) : (
+                <>
+                    <button onClick={onRestart} className={buttonClass}>Restart</button>
+                    <button onClick={onStop} className={buttonClass}>Stop</button>
+                </>
+            )}
+        </div>
+    );
+};
 
 const AgentPanel: React.FC<{ 
     isOpen: boolean; 
     agents: Agent[]; 
+    agentDefinitions: AgentDefinition[];
     commLogs: CommLog[]; 
-    onGenerateCode: (prompt: string) => Promise<string>;
+    liveOutputs: Record<string, LiveOutput>;
+    onAbortTask: (taskId: string) => void;
+    onSendMessage: (agentName: string, message: string) => void;
+    pendingReplyThreads: string[];
+    onGenerateCode: (prompt: string, onToken?: (chunk: string) => void) => Promise<string>;
     onInsertCode: (code: string) => void;
     activeFile: string | null;
-}> = ({ isOpen, agents, commLogs, onGenerateCode, onInsertCode, activeFile }) => {
+}> = ({ isOpen, agents, agentDefinitions, commLogs, liveOutputs, onAbortTask, onSendMessage, pendingReplyThreads, onGenerateCode, onInsertCode, activeFile }) => {
     const [filterAgent, setFilterAgent] = useState('All');
+    const [messageDraft, setMessageDraft] = useState('');
+    const [messageError, setMessageError] = useState<string | null>(null);
     const [assistantPrompt, setAssistantPrompt] = useState('');
     const [generatedCode, setGeneratedCode] = useState('');
     const [isGenerating, setIsGenerating] = useState(false);
 
-    if (!isOpen) return null;
-
-    const getAgentColor = (agentName: string) => ({ 'Orchestrator': 'text-purple-400', 'Frontend-Dev': 'text-blue-400', 'UX-Designer': 'text-pink-400', 'QA-Tester': 'text-green-400', 'Backend-Dev': 'text-orange-400', 'User': 'text-teal-300' }[agentName] || 'text-gray-300');
+    const getAgentColor = (agentName: string) => ({ color: agentName === 'User' ? USER_COLOR : agentDefinitions.find(definition => definition.name === agentName)?.color || DEFAULT_AGENT_COLOR });
     const getStatusColor = (status: Agent['status']) => ({ 'Idle': 'text-green-400', 'Working': 'text-yellow-400 animate-pulse' }[status] || 'text-gray-400');
     
     const agentNames = useMemo(() => ['All', 'User', ...agents.map(a => a.name)], [agents]);
-    const filteredLogs = useMemo(() => commLogs.filter(log => filterAgent === 'All' || log.agent === filterAgent), [commLogs, filterAgent]);
+    const recipients = useMemo(() => getAssignableAgents(agentDefinitions).map(definition => definition.name), [agentDefinitions]); // The Orchestrator takes prompts from the command bar
+    // Replies are shown under the message that started their thread, so a thread is kept when any of its messages match.
+    const threads = useMemo(() => {
+        const byThread = new Map<string, CommLog[]>();
+        commLogs.forEach(log => { if (log.threadId) byThread.set(log.threadId, [...(byThread.get(log.threadId) || []), log]); });
+        return byThread;
+    }, [commLogs]);
+    const filteredLogs = useMemo(() => commLogs.filter(log => {
+        if (log.threadId && threads.get(log.threadId)![0] !== log) return false;
+        const thread = log.threadId ? threads.get(log.threadId)! : [log];
+        return filterAgent === 'All' || thread.some(entry => entry.agent === filterAgent || entry.recipient === filterAgent);
+    }), [commLogs, threads, filterAgent]);
+
+    if (!isOpen) return null;
+
+    const handleSendMessage = (e: React.FormEvent) => {
+        e.preventDefault();
+        const match = messageDraft.trim().match(/^@([\w-]+)\s+([\s\S]+)$/);
+        const recipient = match && recipients.find(name => name.toLowerCase() === match[1].toLowerCase());
+        if (!match || !recipient) {
+            setMessageError(`Start the message with one of ${recipients.map(name => `@${name}`).join(', ')}.`);
+            return;
+        }
+        onSendMessage(recipient, match[2].trim());
+        setMessageDraft('');
+        setMessageError(null);
+    };
+
+    const mention = (name: string) => {
+        setMessageDraft(prev => `@${name} ${prev.replace(/^@[\w-]+\s*/, '')}`);
+        setMessageError(null);
+    };
+
+    const renderMessage = (log: CommLog) => (
+        <div key={log.id} className={`flex flex-col ${log.agent === 'User' ? 'items-end' : 'items-start'}`}>
+           <div className={`max-w-[85%] p-2 rounded-lg ${log.agent === 'User' ? 'bg-blue-600' : 'bg-gray-700'}`}>
+               <div className="flex justify-between items-baseline mb-1">
+                <span className="font-bold text-xs" style={getAgentColor(log.agent)}>{log.agent}{log.recipient && <span className="font-normal text-blue-100"> to @{log.recipient}</span>}</span>
+                <span className="text-xs text-gray-400 ml-2">{log.time}</span>
+               </div>
+               {log.streamId ? (() => {
+                   const live = liveOutputs[log.streamId];
+                   return (
+                       <>
+                           <p className="text-gray-400 text-xs mb-1">{live ? <span className="animate-pulse">Generating task {live.taskId}...</span> : `Response for task ${log.streamId.split('#')[0]}`}</p>
+                           <pre className="text-gray-200 text-xs whitespace-pre-wrap break-words max-h-48 overflow-y-auto custom-scrollbar bg-gray-900/60 p-1 rounded">{live ? live.text : log.message}</pre>
+                           {live && <button onClick={() => onAbortTask(live.taskId)} className="mt-1 px-2 py-0.5 text-xs rounded-md bg-red-800 hover:bg-red-700 text-white">Abort</button>}
+                       </>
+                   );
+               })() : (
+                   <p className="text-gray-200 text-sm whitespace-pre-wrap">{log.message}</p>
+               )}
+           </div>
+        </div>
+    );
 
     const handleGenerateClick = async () => {
         if (!assistantPrompt.trim()) return;
         setIsGenerating(true);
         setGeneratedCode('');
         try {
-            const code = await onGenerateCode(assistantPrompt);
-            setGeneratedCode(code);
+            const code = await onGenerateCode(assistantPrompt, chunk => setGeneratedCode(prev => prev + chunk));
+            setGeneratedCode(code); // Without the markdown fence the stream may have included
         } catch (e) {
             const message = e instanceof Error ? e.message : String(e);
             setGeneratedCode(`// Error generating code: ${message}`);
@@ -1105,7 +2033,7 @@ const AgentPanel: React.FC<{
                 <div className="space-y-3 p-2">
                     {agents.map(agent => (
                         <div key={agent.name} className="text-sm flex justify-between items-center bg-gray-900/50 p-2 rounded-md">
-                            <span className={`font-semibold ${getAgentColor(agent.name)}`}>{agent.name}</span>
+                            <span className="font-semibold" style={getAgentColor(agent.name)}>{agent.name}</span>
                             <span className={`font-mono text-xs ${getStatusColor(agent.status)}`}>{agent.status}</span>
                         </div>
                     ))}
@@ -1128,19 +2056,39 @@ const AgentPanel: React.FC<{
                 </div>
                 <div className="space-y-4 p-2 text-sm max-h-[calc(100vh-350px)] overflow-y-auto custom-scrollbar">
                      {filteredLogs.length === 0 ? (<p className="text-gray-400 text-xs text-center p-4">No communications for this filter.</p>) : (
-                        filteredLogs.map((log) => (
-                            <div key={log.id} className={`flex flex-col ${log.agent === 'User' ? 'items-end' : 'items-start'}`}>
-                               <div className={`max-w-[85%] p-2 rounded-lg ${log.agent === 'User' ? 'bg-blue-600' : 'bg-gray-700'}`}>
-                                   <div className="flex justify-between items-baseline mb-1">
-                                    <span className={`font-bold text-xs ${getAgentColor(log.agent)}`}>{log.agent}</span>
-                                    <span className="text-xs text-gray-400 ml-2">{log.time}</span>
-                                   </div>
-                                   <p className="text-gray-200 text-sm whitespace-pre-wrap">{log.message}</p>
-                               </div>
-                            </div>
-                        ))
+                        filteredLogs.map((log) => {
+                            const replies = log.threadId ? threads.get(log.threadId)!.slice(1) : [];
+                            const awaitingReply = log.threadId && pendingReplyThreads.includes(log.threadId);
+                            return (
+                                <div key={log.id}>
+                                    {renderMessage(log)}
+                                    {(replies.length > 0 || awaitingReply) && (
+                                        <div className="mt-2 ml-4 pl-2 border-l-2 border-gray-600 space-y-2">
+                                            {replies.map(renderMessage)}
+                                            {awaitingReply && <p className="text-xs animate-pulse" style={getAgentColor(log.recipient || '')}>{log.recipient} is replying...</p>}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })
                      )}
                 </div>
+                <form onSubmit={handleSendMessage} className="p-2 border-t border-gray-700 space-y-1">
+                    <div className="flex flex-wrap gap-1">
+                        {recipients.map(name => (
+                            <button key={name} type="button" onClick={() => mention(name)} className="px-1.5 text-xs rounded bg-gray-900 hover:bg-gray-700" style={getAgentColor(name)}>@{name}</button>
+                        ))}
+                    </div>
+                    <div className="flex space-x-1">
+                        <input
+                            type="text" value={messageDraft} onChange={e => { setMessageDraft(e.target.value); setMessageError(null); }}
+                            placeholder={`@${recipients[0] || 'agent'} use a darker palette`}
+                            className="flex-1 bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <button type="submit" disabled={!messageDraft.trim()} className="bg-blue-600 hover:bg-blue-500 rounded-md px-2 disabled:bg-gray-500 disabled:cursor-not-allowed"><SendIcon /></button>
+                    </div>
+                    {messageError && <p className="text-xs text-red-400">{messageError}</p>}
+                </form>
             </CollapsibleSection>
 
             <CollapsibleSection title="AI Assistant" defaultOpen={true}>
@@ -1188,54 +2136,515 @@ const AgentPanel: React.FC<{
     );
 };
 
-const ExecutionPlanPanel: React.FC<{ tasks: AgentTask[]; onRetry: (taskId: string) => void; }> = ({ tasks, onRetry }) => {
-    if (tasks.length === 0) {
-        return <div className="flex flex-col items-center justify-center h-full bg-gray-800 text-gray-500"><PlanIcon /><p className="mt-2">No execution plan generated yet.</p></div>;
+const PlanGraphView: React.FC<{ tasks: AgentTask[]; agentNames: string[] }> = ({ tasks, agentNames }) => {
+    const layout = useMemo(() => layoutPlanGraph(tasks, agentNames), [tasks, agentNames]);
+    const byId = useMemo(() => new Map(tasks.map(task => [task.id, task])), [tasks]);
+
+    const describe = (task: AgentTask) => {
+        const waitingOn = (task.dependencies || []).filter(dep => byId.get(dep)?.state !== 'Completed');
+        const lines = [`${task.id} (${task.agent}) — ${task.state}`, task.description, getTaskFilePaths(task).join(', ')];
+        if (task.error) lines.push(`Error: ${task.error}`);
+        if (task.verification) lines.push(`${VERIFICATION_MODE_LABELS[task.verification.mode]}: ${task.verification.passed ? 'passed' : 'failed'}`);
+        if (task.testRun) lines.push(`Tests: ${summarizeTestRun(task.testRun)}`);
+        if (task.state === 'Blocked' && waitingOn.length > 0) {
+            lines.push(`Waiting on: ${waitingOn.map(dep => `${dep} (${byId.get(dep)?.state ?? 'missing'})`).join(', ')}`);
+        }
+        return lines.join('\n');
+    };
+
+    return (
+        <div className="overflow-auto custom-scrollbar">
+            <div className="flex items-center space-x-4 mb-2 text-xs text-gray-400">
+                {(Object.keys(TASK_STATE_GRAPH_COLORS) as AgentTaskState[]).map(state => (
+                    <span key={state} className="flex items-center">
+                        <span className="inline-block w-3 h-3 rounded-sm mr-1 border" style={{ background: TASK_STATE_GRAPH_COLORS[state].fill, borderColor: TASK_STATE_GRAPH_COLORS[state].stroke }} />
+                        {state === 'AwaitingReview' ? 'Awaiting Review' : state}
+                    </span>
+                ))}
+                <span className="flex items-center"><span className="inline-block w-4 border-t-2 border-amber-400 mr-1" />Critical path</span>
+            </div>
+            <svg width={layout.width} height={layout.height} className="font-sans">
+                <defs>
+                    <marker id="plan-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                        <path d="M 0 0 L 10 5 L 0 10 z" fill="#6b7280" />
+                    </marker>
+                    <marker id="plan-arrow-critical" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                        <path d="M 0 0 L 10 5 L 0 10 z" fill="#fbbf24" />
+                    </marker>
+                </defs>
+                {layout.lanes.map((lane, index) => (
+                    <g key={lane.name}>
+                        <rect x={0} y={lane.y} width={layout.width} height={lane.height} fill={index % 2 === 0 ? '#1f2937' : '#111827'} />
+                        <text x={8} y={lane.y + lane.height / 2} dominantBaseline="middle" fill="#9ca3af" fontSize={12} fontWeight={600}>{lane.name}</text>
+                    </g>
+                ))}
+                {layout.edges.map(edge => {
+                    const from = layout.positions.get(edge.from);
+                    const to = layout.positions.get(edge.to);
+                    if (!from || !to) return null;
+                    const x1 = from.x + GRAPH_NODE_WIDTH, y1 = from.y + GRAPH_NODE_HEIGHT / 2;
+                    const x2 = to.x, y2 = to.y + GRAPH_NODE_HEIGHT / 2;
+                    const bend = Math.max(24, (x2 - x1) / 2);
+                    const failed = byId.get(edge.from)?.state === 'Failed';
+                    return (
+                        <path key={`${edge.from}->${edge.to}`} d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`} fill="none"
+                            stroke={edge.critical ? '#fbbf24' : failed ? '#ef4444' : '#6b7280'} strokeWidth={edge.critical ? 2 : 1.25} strokeDasharray={failed ? '4 3' : undefined}
+                            markerEnd={`url(#${edge.critical ? 'plan-arrow-critical' : 'plan-arrow'})`} />
+                    );
+                })}
+                {tasks.map(task => {
+                    const position = layout.positions.get(task.id);
+                    if (!position) return null;
+                    const colors = TASK_STATE_GRAPH_COLORS[task.state];
+                    const critical = layout.criticalPath.has(task.id);
+                    const label = task.description.length > 26 ? `${task.description.slice(0, 25)}…` : task.description;
+                    return (
+                        <g key={task.id} transform={`translate(${position.x}, ${position.y})`} className={task.state === 'Executing' ? 'animate-pulse' : undefined}>
+                            <title>{describe(task)}</title>
+                            <rect width={GRAPH_NODE_WIDTH} height={GRAPH_NODE_HEIGHT} rx={6} fill={colors.fill} stroke={critical ? '#fbbf24' : colors.stroke} strokeWidth={critical ? 2 : 1} />
+                            <text x={8} y={16} fill="#e5e7eb" fontSize={11} fontFamily="monospace">{task.id}</text>
+                            <text x={GRAPH_NODE_WIDTH - 8} y={16} fill="#9ca3af" fontSize={10} textAnchor="end">{task.state === 'AwaitingReview' ? 'Review' : task.state}</text>
+                            <text x={8} y={34} fill="#d1d5db" fontSize={11}>{label}</text>
+                        </g>
+                    );
+                })}
+            </svg>
+        </div>
+    );
+};
+
+const PlanDraftEditor: React.FC<{
+    plan: PlannedTask[];
+    agentNames: string[];
+    onChange: (plan: PlannedTask[]) => void;
+    onRun: () => void;
+    onDiscard: () => void;
+}> = ({ plan, agentNames, onChange, onRun, onDiscard }) => {
+    const updateTask = (taskId: string, patch: Partial<PlannedTask>) => {
+        onChange(plan.map(task => task.id === taskId ? { ...task, ...patch } : task));
+    };
+
+    const insertTaskAfter = (index: number) => {
+        let n = plan.length + 1;
+        while (plan.some(task => task.id === `task-${n}`)) n++;
+        const previous = plan[index];
+        const task: PlannedTask = { id: `task-${n}`, description: '', filePath: previous?.filePath || '/src/App.tsx', agent: previous?.agent || agentNames[0], dependencies: [] };
+        onChange([...plan.slice(0, index + 1), task, ...plan.slice(index + 1)]);
+    };
+
+    const deleteTask = (taskId: string) => {
+        onChange(plan.filter(task => task.id !== taskId).map(task => ({ ...task, dependencies: (task.dependencies || []).filter(dep => dep !== taskId) })));
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center space-x-2 p-2 rounded-md bg-blue-900/30 border border-blue-700 text-sm">
+                <span className="flex-1 text-gray-300">Review the plan. Nothing runs until you press Run.</span>
+                <button onClick={onDiscard} className="px-3 py-1 text-xs font-medium rounded-md text-gray-200 bg-gray-600 hover:bg-gray-500">Discard</button>
+                <button onClick={onRun} disabled={plan.length === 0} className="px-3 py-1 text-xs font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-500 disabled:cursor-not-allowed">Run</button>
+            </div>
+            {plan.length === 0 && (
+                <button onClick={() => insertTaskAfter(-1)} className="w-full p-2 rounded-md border border-dashed border-gray-600 text-xs text-gray-400 hover:text-white hover:border-gray-400">+ Add task</button>
+            )}
+            {plan.map((task, index) => {
+                const dependencies = task.dependencies || [];
+                const candidates = plan.filter(other => other.id !== task.id && !dependencies.includes(other.id));
+                return (
+                    <div key={task.id} className="p-2 rounded-md border border-gray-600 bg-gray-700/50 text-sm space-y-2">
+                        <div className="flex items-center space-x-2">
+                            <span className="font-mono text-xs text-gray-400 shrink-0">{task.id}</span>
+                            <select value={task.agent} onChange={e => updateTask(task.id, { agent: e.target.value })} className="bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-xs">
+                                {agentNames.map(name => <option key={name} value={name}>{name}</option>)}
+                            </select>
+                            <input value={task.filePath} onChange={e => updateTask(task.id, { filePath: e.target.value })} placeholder="/src/App.tsx" className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-xs font-mono" />
+                            <button onClick={() => insertTaskAfter(index)} title="Insert a task below" className="px-2 py-1 rounded-md text-xs text-gray-300 hover:bg-gray-600">+</button>
+                            <button onClick={() => deleteTask(task.id)} title="Delete task" className="p-1 rounded-md text-gray-400 hover:bg-gray-600 hover:text-red-400"><CloseIcon /></button>
+                        </div>
+                        <input value={(task.files || []).join(', ')} onChange={e => updateTask(task.id, { files: e.target.value.split(',').map(path => path.trim()).filter(Boolean) })} placeholder="Other files this task edits, comma-separated" className="w-full bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-xs font-mono" />
+                        <textarea value={task.description} onChange={e => updateTask(task.id, { description: e.target.value })} rows={2} placeholder="What should the agent do?" className="w-full bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-xs resize-y" />
+                        <div className="flex flex-wrap items-center gap-1 text-xs">
+                            <span className="text-gray-400 font-semibold mr-1">Depends on:</span>
+                            {dependencies.map(dep => (
+                                <span key={dep} className="flex items-center bg-gray-800 border border-gray-600 rounded-md pl-2 font-mono">
+                                    {dep}
+                                    <button onClick={() => updateTask(task.id, { dependencies: dependencies.filter(d => d !== dep) })} title="Remove dependency" className="px-1 text-gray-400 hover:text-red-400">×</button>
+                                </span>
+                            ))}
+                            {candidates.length > 0 && (
+                                <select value="" onChange={e => e.target.value && updateTask(task.id, { dependencies: [...dependencies, e.target.value] })} className="bg-gray-900 border border-gray-600 rounded-md px-1 py-0.5 text-xs">
+                                    <option value="">+ add…</option>
+                                    {candidates.map(other => <option key={other.id} value={other.id}>{other.id}</option>)}
+                                </select>
+                            )}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+// Past and current runs as a thread: each prompt, followed by the tasks it added and how they ended.
+const RunThreadView: React.FC<{ runs: PlanRun[]; currentTasks: AgentTask[] }> = ({ runs, currentTasks }) => {
+    if (runs.length === 0) return <p className="text-sm text-gray-500">No runs yet.</p>;
+    return (
+        <div className="space-y-4">
+            {runs.map((run, runIndex) => {
+                const isCurrent = runIndex === runs.length - 1;
+                const tasks = isCurrent ? currentTasks : run.tasks;
+                const byId = new Map(tasks.map(task => [task.id, task]));
+                const attributed = new Set(run.turns.flatMap(turn => turn.taskIds));
+                const otherTasks = tasks.filter(task => !attributed.has(task.id)); // Added by checks or preview fixes
+                const completed = tasks.filter(task => task.state === 'Completed').length;
+                const failed = tasks.filter(task => task.state === 'Failed').length;
+                const renderTasks = (list: AgentTask[]) => (
+                    <ul className="mt-2 ml-4 space-y-1">
+                        {list.map(task => (
+                            <li key={task.id} className="flex items-center space-x-2 text-xs text-gray-300">
+                                <TaskStatusIcon status={task.state} />
+                                <span className="font-mono text-gray-500">{task.agent}</span>
+                                <span className="truncate">{task.description}</span>
+                            </li>
+                        ))}
+                    </ul>
+                );
+                return (
+                    <div key={run.id} className={`rounded-md border p-3 ${isCurrent ? 'border-blue-600 bg-gray-900/60' : 'border-gray-700 bg-gray-900/30'}`}>
+                        <div className="flex items-center justify-between text-xs text-gray-400 mb-2">
+                            <span className="font-semibold text-gray-200">Run {runIndex + 1}{isCurrent && ' (current)'}</span>
+                            <span>{new Date(run.startedAt).toLocaleString()} · {completed}/{tasks.length} completed{failed > 0 && `, ${failed} failed`}</span>
+                        </div>
+                        <div className="space-y-3">
+                            {run.turns.map((turn, turnIndex) => {
+                                const turnTasks = turn.taskIds.map(id => byId.get(id)).filter((task): task is AgentTask => !!task);
+                                return (
+                                    <div key={turnIndex}>
+                                        <div className="flex items-start space-x-2 text-sm">
+                                            <span className="shrink-0 px-1.5 rounded bg-blue-900/60 text-blue-200 text-xs mt-0.5">{turnIndex === 0 ? 'Request' : 'Follow-up'}</span>
+                                            <p className="text-gray-200 flex-1">{turn.prompt}</p>
+                                            <span className="shrink-0 text-xs text-gray-500">{turn.time}</span>
+                                        </div>
+                                        {turnTasks.length > 0 ? renderTasks(turnTasks) : <p className="mt-1 ml-4 text-xs text-gray-500">No tasks.</p>}
+                                    </div>
+                                );
+                            })}
+                            {otherTasks.length > 0 && (
+                                <div>
+                                    <span className="text-xs text-gray-400">Added during the run</span>
+                                    {renderTasks(otherTasks)}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+const ExecutionPlanPanel: React.FC<{
+    tasks: AgentTask[];
+    onRetry: (taskId: string) => void;
+    onCancel: (taskId: string) => void;
+    isRunning: boolean;
+    isPaused: boolean;
+    onPause: () => void;
+    onResume: () => void;
+    onStop: () => void;
+    runs: PlanRun[];
+    requireReview: boolean;
+    onToggleReview: () => void;
+    onApprove: (taskId: string) => void;
+    onReject: (taskId: string) => void;
+    planIssues: PlanIssue[];
+    draftPlan: PlannedTask[] | null;
+    agentNames: string[];
+    onChangeDraft: (plan: PlannedTask[]) => void;
+    onRunDraft: () => void;
+    onDiscardDraft: () => void;
+    verificationMode: VerificationMode;
+    onChangeVerificationMode: (mode: VerificationMode) => void;
+}> = ({ tasks, onRetry, onCancel, isRunning, isPaused, onPause, onResume, onStop, runs, requireReview, onToggleReview, onApprove, onReject, planIssues, draftPlan, agentNames, onChangeDraft, onRunDraft, onDiscardDraft, verificationMode, onChangeVerificationMode }) => {
+    const [expandedReviews, setExpandedReviews] = useState<Set<string>>(new Set());
+    const [expandedHistories, setExpandedHistories] = useState<Set<string>>(new Set());
+    const [showIssues, setShowIssues] = useState(true);
+    const [viewMode, setViewMode] = useState<'list' | 'graph' | 'runs'>('list');
+
+    const reviewToggle = (
+        <div className="flex items-center space-x-4">
+            <label className="flex items-center space-x-2 text-xs text-gray-300" title="Type-check or build the project with each task's changes before it counts as completed">
+                <span>Verify</span>
+                <select value={verificationMode} onChange={e => onChangeVerificationMode(e.target.value as VerificationMode)} className="bg-gray-900 border border-gray-600 rounded-md px-1 py-0.5 text-xs">
+                    {(Object.keys(VERIFICATION_MODE_LABELS) as VerificationMode[]).map(mode => <option key={mode} value={mode}>{VERIFICATION_MODE_LABELS[mode]}</option>)}
+                </select>
+            </label>
+            <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer" title="Park finished tasks for approval before their changes are written">
+                <input type="checkbox" checked={requireReview} onChange={onToggleReview} className="accent-blue-500" />
+                <span>Require approval</span>
+            </label>
+        </div>
+    );
+
+    if (tasks.length === 0 && !draftPlan && viewMode !== 'runs') {
+        return (
+            <div className="flex flex-col items-center justify-center h-full bg-gray-800 text-gray-500">
+                <PlanIcon /><p className="mt-2">No execution plan generated yet.</p>
+                {runs.length > 1 && (
+                    <button onClick={() => setViewMode('runs')} className="mt-2 text-sm text-blue-400 hover:underline">View {runs.length - 1} earlier run(s)</button>
+                )}
+                <div className="mt-4">{reviewToggle}</div>
+            </div>
+        );
     }
     
     const getStatusColor = (status: AgentTaskState) => ({
         'Blocked': 'bg-gray-700 border-gray-600',
         'Queued': 'bg-cyan-900/50 border-cyan-700',
         'Executing': 'bg-yellow-900/50 border-yellow-700 animate-pulse',
+        'AwaitingReview': 'bg-amber-900/40 border-amber-600',
         'Completed': 'bg-green-900/50 border-green-700',
         'Failed': 'bg-red-900/50 border-red-700',
     }[status]);
 
+    const toggleExpanded = (taskId: string, setExpanded = setExpandedReviews) => {
+        setExpanded(prev => {
+            const next = new Set(prev);
+            if (next.has(taskId)) next.delete(taskId);
+            else next.add(taskId);
+            return next;
+        });
+    };
+
     return (
         <div className="h-full bg-gray-800 p-4 overflow-y-auto custom-scrollbar">
-            <h2 className="text-lg font-semibold mb-4">Execution Plan</h2>
-            <div className="space-y-1">
-                {tasks.map(task => {
-                    const nestingLevel = task.id.split('.').length - 1;
-                    const indentStyle = { paddingLeft: `${nestingLevel * 20 + 12}px` };
-                    return (
-                        <div key={task.id} className={`p-2 rounded-md border text-sm ${getStatusColor(task.state)}`} style={indentStyle}>
-                            <div className="flex items-center justify-between">
-                                <p className="font-medium text-gray-200">{task.description}</p>
-                                <div className="flex items-center space-x-2 text-xs font-mono shrink-0 ml-4">
-                                    {task.state === 'Failed' && (
-                                        <button onClick={() => onRetry(task.id)} title="Retry task" className="p-1 rounded-md hover:bg-gray-600 text-yellow-400 transition-colors">
-                                            <RetryIcon />
-                                        </button>
-                                    )}
-                                    <TaskStatusIcon status={task.state} />
-                                    <span>{task.state}</span>
-                                </div>
-                            </div>
-                            {task.dependencies && task.dependencies.length > 0 && (
-                                <div className="mt-1 text-xs text-gray-400">
-                                    <span className="font-semibold">Depends on:</span> {task.dependencies.join(', ')}
-                                </div>
-                            )}
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold">Execution Plan</h2>
+                <div className="flex items-center space-x-4">
+                    {!draftPlan && (isRunning || isPaused) && (
+                        <div className="flex items-center space-x-2 text-xs">
+                            {isPaused
+                                ? <button onClick={onResume} title="Start queued tasks again" className="px-3 py-1 rounded-md bg-green-700 hover:bg-green-600 text-white">Resume</button>
+                                : <button onClick={onPause} title="Finish executing tasks but start no new ones" className="px-3 py-1 rounded-md bg-gray-600 hover:bg-gray-500 text-white">Pause</button>}
+                            <button onClick={onStop} title="Abort executing tasks and cancel the rest" className="px-3 py-1 rounded-md bg-red-800 hover:bg-red-700 text-white">Stop</button>
                         </div>
-                    )
-                })}
+                    )}
+                    {!draftPlan && (
+                        <div className="flex rounded-md border border-gray-600 overflow-hidden text-xs">
+                            {(['list', 'graph', 'runs'] as const).map(mode => (
+                                <button key={mode} onClick={() => setViewMode(mode)} className={`px-3 py-1 capitalize ${viewMode === mode ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}>{mode}</button>
+                            ))}
+                        </div>
+                    )}
+                    {reviewToggle}
+                </div>
             </div>
+            {planIssues.length > 0 && (
+                <div className="mb-4 rounded-md border border-amber-600 bg-amber-900/30 text-xs">
+                    <button onClick={() => setShowIssues(prev => !prev)} className="w-full flex items-center justify-between px-3 py-2 text-amber-200 font-semibold">
+                        <span>The plan had {planIssues.length} problem(s), repaired automatically</span>
+                        <span>{showIssues ? '▾' : '▸'}</span>
+                    </button>
+                    {showIssues && (
+                        <ul className="px-3 pb-2 space-y-1">
+                            {planIssues.map((issue, index) => (
+                                <li key={index} className="text-gray-300">
+                                    <span className="font-mono text-amber-400 mr-2">{issue.kind}</span>
+                                    {issue.message} <span className="text-gray-400">{issue.repair}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+            {draftPlan ? (
+                <PlanDraftEditor plan={draftPlan} agentNames={agentNames} onChange={onChangeDraft} onRun={onRunDraft} onDiscard={onDiscardDraft} />
+            ) : viewMode === 'graph' ? (
+                <PlanGraphView tasks={tasks} agentNames={agentNames} />
+            ) : viewMode === 'runs' ? (
+                <RunThreadView runs={runs} currentTasks={tasks} />
+            ) : (
+                <div className="space-y-1">
+                    {tasks.map(task => {
+                        const nestingLevel = task.id.split('.').length - 1;
+                        const indentStyle = { paddingLeft: `${nestingLevel * 20 + 12}px` };
+                        const isExpanded = expandedReviews.has(task.id);
+                        return (
+                            <div key={task.id} className={`p-2 rounded-md border text-sm ${getStatusColor(task.state)}`} style={indentStyle}>
+                                <div className="flex items-center justify-between">
+                                    <p className="font-medium text-gray-200">{task.description}</p>
+                                    <div className="flex items-center space-x-2 text-xs font-mono shrink-0 ml-4">
+                                        {task.state === 'Failed' && (
+                                            <button onClick={() => onRetry(task.id)} title="Retry task" className="p-1 rounded-md hover:bg-gray-600 text-yellow-400 transition-colors">
+                                                <RetryIcon />
+                                            </button>
+                                        )}
+                                        {(task.state === 'Queued' || task.state === 'Blocked' || (task.state === 'Executing' && !task.runOnly)) && (
+                                            <button onClick={() => onCancel(task.id)} title="Cancel task" className="px-2 py-0.5 rounded-md bg-red-800 hover:bg-red-700 text-white font-sans">Cancel</button>
+                                        )}
+                                        <TaskStatusIcon status={task.state} />
+                                        <span>{task.state === 'AwaitingReview' ? 'Awaiting Review' : task.state}</span>
+                                    </div>
+                                </div>
+                                {task.files && task.files.length > 0 && (
+                                    <div className="mt-1 text-xs text-gray-400 font-mono">{getTaskFilePaths(task).join(', ')}</div>
+                                )}
+                                {task.dependencies && task.dependencies.length > 0 && (
+                                    <div className="mt-1 text-xs text-gray-400">
+                                        <span className="font-semibold">Depends on:</span> {task.dependencies.join(', ')}
+                                    </div>
+                                )}
+                                {task.verification && (
+                                    <div className={`mt-1 text-xs ${task.verification.passed ? 'text-green-300' : 'text-red-300'}`}>
+                                        <span className="font-semibold">{VERIFICATION_MODE_LABELS[task.verification.mode]}:</span> {task.verification.passed ? 'passed' : 'failed'}
+                                        {task.verification.errors.length > 0 && ` (${task.verification.errors.length} error(s)${task.verification.passed ? ' outside this task\'s files' : ''})`}
+                                        {task.verification.errors.length > 0 && (
+                                            <ul className="mt-1 ml-4 list-disc text-gray-300 font-mono">
+                                                {task.verification.errors.slice(0, 5).map((error, index) => (
+                                                    <li key={index} title={error.message}>{error.file}:{error.line}:{error.column} {error.code} {error.message.split('\n')[0]}</li>
+                                                ))}
+                                                {task.verification.errors.length > 5 && <li>…and {task.verification.errors.length - 5} more</li>}
+                                            </ul>
+                                        )}
+                                    </div>
+                                )}
+                                {task.testRun && (
+                                    <div className={`mt-1 text-xs ${testRunPassed(task.testRun) ? 'text-green-300' : 'text-red-300'}`}>
+                                        <span className="font-semibold">Tests:</span> {summarizeTestRun(task.testRun)}
+                                        {task.testRun.failures.length > 0 && (
+                                            <ul className="mt-1 ml-4 list-disc text-gray-300">
+                                                {task.testRun.failures.slice(0, 5).map((failure, index) => (
+                                                    <li key={index} title={failure.message}><span className="font-mono">{failure.file}</span> › {failure.name}</li>
+                                                ))}
+                                                {task.testRun.failures.length > 5 && <li>…and {task.testRun.failures.length - 5} more</li>}
+                                            </ul>
+                                        )}
+                                    </div>
+                                )}
+                                {task.error && (task.state === 'Failed' || task.state === 'Queued') && (
+                                    <div className="mt-1 text-xs text-red-300 whitespace-pre-wrap">{task.error}</div>
+                                )}
+                                {task.attempts && task.attempts.length > 0 && (
+                                    <div className="mt-1">
+                                        <button onClick={() => toggleExpanded(task.id, setExpandedHistories)} className="text-xs text-cyan-400 hover:underline">
+                                            {expandedHistories.has(task.id) ? 'Hide' : 'Show'} attempt history ({task.attempts.length})
+                                        </button>
+                                        {expandedHistories.has(task.id) && (
+                                            <ol className="mt-1 space-y-2">
+                                                {task.attempts.map(attempt => (
+                                                    <li key={attempt.number} className="bg-gray-900 rounded-md border border-gray-700 p-2 text-xs">
+                                                        <div className="flex items-center justify-between">
+                                                            <span className="font-semibold text-gray-200">Attempt {attempt.number}</span>
+                                                            <span className={{ succeeded: 'text-green-400', failed: 'text-red-400', rejected: 'text-amber-400', aborted: 'text-gray-400' }[attempt.outcome]}>
+                                                                {attempt.outcome} · {new Date(attempt.finishedAt).toLocaleTimeString()} · {((attempt.finishedAt - attempt.startedAt) / 1000).toFixed(1)}s
+                                                            </span>
+                                                        </div>
+                                                        {attempt.error && <pre className="mt-1 text-red-300 whitespace-pre-wrap font-mono">{attempt.error}</pre>}
+                                                        {attempt.verification && (
+                                                            <div className="mt-1 text-gray-400">{VERIFICATION_MODE_LABELS[attempt.verification.mode]}: {attempt.verification.passed ? 'passed' : `failed (${attempt.verification.errors.length} error(s))`}</div>
+                                                        )}
+                                                        {attempt.output && (
+                                                            <pre className="mt-1 p-2 bg-gray-800 rounded text-gray-300 overflow-auto max-h-60 custom-scrollbar font-mono">{attempt.output}</pre>
+                                                        )}
+                                                    </li>
+                                                ))}
+                                            </ol>
+                                        )}
+                                    </div>
+                                )}
+                                {task.state === 'AwaitingReview' && task.pendingChanges && (
+                                    <div className="mt-2">
+                                        <div className="flex items-center space-x-2">
+                                            <button onClick={() => toggleExpanded(task.id)} className="text-xs text-cyan-400 hover:underline">
+                                                {isExpanded ? 'Hide' : 'Show'} proposed changes ({task.pendingChanges.map(c => c.filePath).join(', ')})
+                                            </button>
+                                            <div className="flex-1" />
+                                            <button onClick={() => onApprove(task.id)} className="px-3 py-1 text-xs font-medium rounded-md text-white bg-green-600 hover:bg-green-700">Approve</button>
+                                            <button onClick={() => onReject(task.id)} className="px-3 py-1 text-xs font-medium rounded-md text-white bg-red-600 hover:bg-red-700">Reject</button>
+                                        </div>
+                                        {isExpanded && task.pendingChanges.map(change => (
+                                            <div key={change.filePath} className="mt-2 bg-gray-900 rounded-md border border-gray-700 overflow-hidden">
+                                                <div className="text-xs text-gray-400 bg-gray-800 px-3 py-1 border-b border-gray-700">
+                                                    {change.filePath}{change.isNewFile && <span className="ml-2 text-green-400">(new file)</span>}
+                                                </div>
+                                                <pre className="p-3 text-xs custom-scrollbar overflow-auto font-mono max-h-80"><code>{change.content}</code></pre>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )
+                    })}
+                </div>
+            )}
         </div>
     );
 };
 
-const TerminalPanel: React.FC<{ logs: TerminalLog[]; height: number; onResize: (e: React.MouseEvent) => void; }> = ({ logs, height, onResize }) => {
+// An interactive `jsh` session in the preview's WebContainer. Stays mounted while hidden so the session survives tab switches.
+const ShellTerminal: React.FC<{ container: WebContainer | null; visible: boolean }> = ({ container, visible }) => {
+    const hostRef = useRef<HTMLDivElement>(null);
+    const terminalRef = useRef<XtermTerminal | null>(null);
+    const fitAddonRef = useRef<XtermFitAddon | null>(null);
+
+    useEffect(() => {
+        const terminal: XtermTerminal = new Terminal({ convertEol: true, cursorBlink: true, fontSize: 13, theme: { background: '#111827' } });
+        const fitAddon: XtermFitAddon = new FitAddon();
+        terminal.loadAddon(fitAddon);
+        terminal.open(hostRef.current!);
+        terminalRef.current = terminal;
+        fitAddonRef.current = fitAddon;
+        const observer = new ResizeObserver(() => {
+            if (hostRef.current && hostRef.current.offsetWidth > 0) fitAddon.fit();
+        });
+        observer.observe(hostRef.current!);
+        return () => { observer.disconnect(); terminal.dispose(); };
+    }, []);
+
+    useEffect(() => {
+        if (visible) fitAddonRef.current?.fit();
+    }, [visible]);
+
+    useEffect(() => {
+        const terminal: XtermTerminal | null = terminalRef.current;
+        if (!terminal) return;
+        if (!container) {
+            terminal.writeln('Waiting for the WebContainer to boot...');
+            return;
+        }
+        let disposed = false;
+        let shell: ShellProcess | null = null;
+        const subscriptions: XtermSubscription[] = [];
+
+        const startShell = async () => {
+            const spawned: ShellProcess = await container.spawn('jsh', { terminal: { cols: terminal.cols, rows: terminal.rows } });
+            shell = spawned;
+            if (disposed) { spawned.kill(); return; }
+            spawned.output.pipeTo(new WritableStream({ write(data) { terminal.write(data); } }));
+            const input = spawned.input.getWriter();
+            subscriptions.push(terminal.onData(data => { input.write(data); }));
+            subscriptions.push(terminal.onResize(({ cols, rows }) => spawned.resize({ cols, rows })));
+        };
+        terminal.clear();
+        startShell().catch(error => terminal.writeln(`Failed to start the shell: ${error instanceof Error ? error.message : String(error)}`));
+
+        return () => {
+            disposed = true;
+            subscriptions.forEach(subscription => subscription.dispose());
+            shell?.kill();
+        };
+    }, [container]);
+
+    return <div ref={hostRef} className="h-full w-full px-2 pt-1" />;
+};
+
+const TerminalPanel: React.FC<{
+    logs: TerminalLog[];
+    height: number;
+    onResize: (e: React.MouseEvent) => void;
+    onFixError: (log: TerminalLog) => void;
+    container: WebContainer | null;
+}> = ({ logs, height, onResize, onFixError, container }) => {
+    const [activeTab, setActiveTab] = useState<'logs' | 'shell'>('logs');
     const scrollRef = useRef<HTMLDivElement>(null);
     useEffect(() => {
         if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
@@ -1244,18 +2653,28 @@ const TerminalPanel: React.FC<{ logs: TerminalLog[]; height: number; onResize: (
     return (
         <div style={{ height: `${height}px` }} className="bg-gray-900 text-white font-mono text-sm flex flex-col relative">
             <div className="bottom-panel-handle" onMouseDown={onResize}></div>
-            <div className="flex-shrink-0 p-2 border-b border-gray-700">
-                <span className="font-semibold">TERMINAL</span>
+            <div className="flex-shrink-0 px-2 border-b border-gray-700 flex space-x-4">
+                {([['logs', 'TERMINAL'], ['shell', 'SHELL']] as const).map(([tab, label]) => (
+                    <button key={tab} onClick={() => setActiveTab(tab)} className={`py-2 font-semibold border-b-2 ${activeTab === tab ? 'border-blue-500 text-white' : 'border-transparent text-gray-400 hover:text-white'}`}>{label}</button>
+                ))}
             </div>
-            <div ref={scrollRef} className="flex-1 overflow-y-auto custom-scrollbar p-2">
+            <div ref={scrollRef} className={`flex-1 overflow-y-auto custom-scrollbar p-2 ${activeTab === 'logs' ? '' : 'hidden'}`}>
                 {logs.map(log => (
                     <div key={log.id} className="flex">
                         <span className="text-gray-500 mr-2 shrink-0">{log.time}</span>
-                        <span className="text-cyan-400 mr-2 shrink-0">{log.source}:</span>
-                        <span className="flex-1 whitespace-pre-wrap break-words">{log.message}</span>
+                        <span className={`mr-2 shrink-0 ${log.source.startsWith('Preview ') ? 'text-fuchsia-400' : 'text-cyan-400'}`}>{log.source}:</span>
+                        <span className={`flex-1 whitespace-pre-wrap break-words ${log.previewError ? 'text-red-300' : ''}`}>{log.message}</span>
+                        {log.previewError && (
+                            <button onClick={() => onFixError(log)} title={log.previewError.location ? `Ask the agent that last edited ${log.previewError.location.filePath} to fix this` : 'Ask an agent to fix this'} className="ml-2 shrink-0 self-start px-2 py-0.5 text-xs font-sans rounded-md bg-red-700 hover:bg-red-600 text-white">
+                                Fix this error
+                            </button>
+                        )}
                     </div>
                 ))}
             </div>
+            <div className={`flex-1 min-h-0 ${activeTab === 'shell' ? '' : 'hidden'}`}>
+                <ShellTerminal container={container} visible={activeTab === 'shell'} />
+            </div>
         </div>
     );
 };
@@ -1265,24 +2684,38 @@ const CommandBar: React.FC<{
     inputValue: string;
     onInputChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
     isThinking: boolean;
+    isPlanning: boolean;
+    isPaused: boolean;
     aiStatus: string;
-}> = ({ onSubmit, inputValue, onInputChange, isThinking, aiStatus }) => (
+    onStop: () => void;
+    hasPlan: boolean; // Follow-ups can be added to it
+    followUpMode: FollowUpMode;
+    onChangeFollowUpMode: (mode: FollowUpMode) => void;
+}> = ({ onSubmit, inputValue, onInputChange, isThinking, isPlanning, isPaused, aiStatus, onStop, hasPlan, followUpMode, onChangeFollowUpMode }) => (
     <div className="flex-shrink-0 border-t border-gray-700 p-2 bg-gray-900 flex items-center space-x-4">
         <div className="flex items-center space-x-2 shrink-0">
             <span className="text-sm font-semibold text-gray-400">AI Status:</span>
-            <span className={`text-sm font-mono px-2 py-1 rounded-md ${isThinking ? 'bg-yellow-500/20 text-yellow-300 animate-pulse' : 'bg-green-500/20 text-green-300'}`}>
+            <span className={`text-sm font-mono px-2 py-1 rounded-md ${isThinking ? 'bg-yellow-500/20 text-yellow-300 animate-pulse' : isPaused ? 'bg-amber-500/20 text-amber-300' : 'bg-green-500/20 text-green-300'}`}>
                 {aiStatus}
             </span>
         </div>
         <form onSubmit={onSubmit} className="flex-1 flex items-center space-x-2">
+            {hasPlan && (
+                <select value={followUpMode} onChange={e => onChangeFollowUpMode(e.target.value as FollowUpMode)} disabled={isPlanning} title="What a new prompt does with the current plan" className="bg-gray-700 rounded-md px-2 py-2 text-sm text-white disabled:opacity-60">
+                    {(Object.keys(FOLLOW_UP_MODE_LABELS) as FollowUpMode[]).map(mode => <option key={mode} value={mode}>{FOLLOW_UP_MODE_LABELS[mode]}</option>)}
+                </select>
+            )}
              <input
                 type="text" value={inputValue} onChange={onInputChange}
-                placeholder="Provide instructions to the AI agents..."
-                className="flex-1 bg-gray-700 rounded-md px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                disabled={isThinking}
+                placeholder={hasPlan && followUpMode === 'append' ? 'Add a follow-up to the current plan...' : 'Provide instructions to the AI agents...'}
+                className="flex-1 bg-gray-700 rounded-md px-4 py-2 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60"
+                disabled={isPlanning}
             />
-            <button type="submit" className="bg-blue-600 hover:bg-blue-500 rounded-md p-2 disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={isThinking || !inputValue.trim()}>
-                {isThinking ? <SpinnerIcon /> : <SendIcon />}
+            {(isThinking || isPaused) && (
+                <button type="button" onClick={onStop} title="Stop planning or the running plan" className="bg-red-700 hover:bg-red-600 rounded-md px-3 py-2 text-sm">Stop</button>
+            )}
+            <button type="submit" className="bg-blue-600 hover:bg-blue-500 rounded-md p-2 disabled:bg-gray-500 disabled:cursor-not-allowed" disabled={isPlanning || !inputValue.trim()}>
+                {isPlanning ? <SpinnerIcon /> : <SendIcon />}
             </button>
         </form>
     </div>
@@ -1294,8 +2727,18 @@ const MainView: React.FC<{
     setActiveTab: (tab: 'code' | 'preview' | 'plan') => void;
     openFiles: string[]; activeFile: string | null; files: FileNode[];
     onSelectFile: (path: string) => void; onCloseFile: (path: string) => void; onSave: (path: string, content: string) => void;
-    addLog: (source: string, message: string) => void; allTasks: AgentTask[]; onRetryTask: (taskId: string) => void;
+    allTasks: AgentTask[]; onRetryTask: (taskId: string) => void; onAbortTask: (taskId: string) => void; onCancelTask: (taskId: string) => void;
+    isPlanRunning: boolean; isPlanPaused: boolean; onPausePlan: () => void; onResumePlan: () => void; onStopPlan: () => void; runs: PlanRun[];
+    liveOutput: LiveOutput | null;
+    requireReview: boolean; onToggleReview: () => void; onApproveTask: (taskId: string) => void; onRejectTask: (taskId: string) => void;
+    planIssues: PlanIssue[]; draftPlan: PlannedTask[] | null; agentNames: string[];
+    containerState: ContainerState; onStartContainer: () => void; onRestartContainer: () => void; onStopContainer: () => void;
+    onPreviewMessage: (message: PreviewMessage) => void;
+    verificationMode: VerificationMode; onChangeVerificationMode: (mode: VerificationMode) => void;
+    onChangeDraft: (plan: PlannedTask[]) => void; onRunDraft: () => void; onDiscardDraft: () => void;
     codeToInsert: { id: string, code: string } | null; onInsertionComplete: () => void;
+    diff: { path: string; original: string; originalLabel: string } | null;
+    onStageDiff: (path: string, stagedContent: string) => void; onDiscardDiff: (path: string, workingContent: string) => void; onCloseDiff: () => void;
 }> = (props) => {
     const tabs = [
         { id: 'code', label: 'Code', icon: <CodeIcon /> },
@@ -1311,15 +2754,25 @@ const MainView: React.FC<{
                         {tab.icon} {tab.label}
                     </button>
                 ))}
+                <ContainerControls state={props.containerState} onStart={props.onStartContainer} onRestart={props.onRestartContainer} onStop={props.onStopContainer} />
             </div>
             <div className="flex-1 min-h-0">
                 {props.activeTab === 'code' && <EditorPanel 
                     openFiles={props.openFiles} activeFile={props.activeFile} files={props.files} 
                     onSelectFile={props.onSelectFile} onCloseFile={props.onCloseFile} onSave={props.onSave} 
                     codeToInsert={props.codeToInsert} onInsertionComplete={props.onInsertionComplete} 
+                    diff={props.diff} onStageDiff={props.onStageDiff} onDiscardDiff={props.onDiscardDiff} onCloseDiff={props.onCloseDiff}
+                    liveOutput={props.liveOutput} onAbortTask={props.onAbortTask}
+                />}
+                {props.activeTab === 'preview' && <PreviewPanel containerState={props.containerState} onStartContainer={props.onStartContainer} onPreviewMessage={props.onPreviewMessage} />}
+                {props.activeTab === 'plan' && <ExecutionPlanPanel
+                    tasks={props.allTasks} onRetry={props.onRetryTask} onCancel={props.onCancelTask}
+                    isRunning={props.isPlanRunning} isPaused={props.isPlanPaused} onPause={props.onPausePlan} onResume={props.onResumePlan} onStop={props.onStopPlan} runs={props.runs}
+                    requireReview={props.requireReview} onToggleReview={props.onToggleReview} onApprove={props.onApproveTask} onReject={props.onRejectTask}
+                    planIssues={props.planIssues} draftPlan={props.draftPlan} agentNames={props.agentNames}
+                    onChangeDraft={props.onChangeDraft} onRunDraft={props.onRunDraft} onDiscardDraft={props.onDiscardDraft}
+                    verificationMode={props.verificationMode} onChangeVerificationMode={props.onChangeVerificationMode}
                 />}
-                {props.activeTab === 'preview' && <PreviewPanel files={props.files} addLog={props.addLog} />}
-                {props.activeTab === 'plan' && <ExecutionPlanPanel tasks={props.allTasks} onRetry={props.onRetryTask} />}
             </div>
         </div>
     );
@@ -1330,31 +2783,117 @@ const MainView: React.FC<{
 export function App() {
     // State
     const [files, setFiles] = useState<FileNode[]>(initialFiles);
-    const [agents, setAgents] = useState<Agent[]>(initialAgents);
-    const [activeView, setActiveView] = useState('explorer'); // 'explorer', 'source-control', 'checklist'
+    const [agentDefinitions, setAgentDefinitions] = useState<AgentDefinition[]>(loadAgentDefinitions);
+    const [agents, setAgents] = useState<Agent[]>(() => agentDefinitions.map(definition => ({ name: definition.name, status: 'Idle', tasks: [] })));
+    const [activeView, setActiveView] = useState('explorer'); // 'explorer', 'source-control', 'dependencies', 'agents', 'checklist'
     const [activeMainTab, setActiveMainTab] = useState<'code' | 'preview' | 'plan'>('code');
     const [openFiles, setOpenFiles] = useState<string[]>(['/src/App.tsx']);
     const [activeFile, setActiveFile] = useState<string | null>('/src/App.tsx');
     const [agentPanelOpen, setAgentPanelOpen] = useState(true);
     const [terminalLogs, setTerminalLogs] = useState<TerminalLog[]>([{id: 0, time: new Date().toLocaleTimeString(), source: 'System', message: 'Welcome to Agentic!'}]);
     const [commLogs, setCommLogs] = useState<CommLog[]>([]);
+    const [liveOutputs, setLiveOutputs] = useState<Record<string, LiveOutput>>({});
     const [userInput, setUserInput] = useState('');
     const [isThinking, setIsThinking] = useState(false);
+    const [isPaused, setIsPaused] = useState(false);
+    const [isPlanning, setIsPlanning] = useState(false);
+    const [runs, setRuns] = useState<PlanRun[]>([]);
+    const [followUpMode, setFollowUpMode] = useState<FollowUpMode>('append');
+    const [pendingReplyThreads, setPendingReplyThreads] = useState<string[]>([]); // Direct messages awaiting a reply
+    const planAbortRef = useRef<AbortController | null>(null); // While the Orchestrator is planning
     const [aiStatus, setAiStatus] = useState('Idle');
     const [bottomPanelHeight, setBottomPanelHeight] = useState(200);
     const [headFiles, setHeadFiles] = useState<Record<string, string>>({});
     const [modifiedFiles, setModifiedFiles] = useState<string[]>([]);
+    const [deletedFiles, setDeletedFiles] = useState<string[]>([]); // In HEAD but no longer in the workspace; also listed in modifiedFiles
+    const [commits, setCommits] = useState<Commit[]>([]);
+    const [headCommitId, setHeadCommitId] = useState<string | null>(null);
+    const [stagedFiles, setStagedFiles] = useState<Record<string, string>>({}); // The index: path -> content staged for the next commit
+    const [diffPath, setDiffPath] = useState<string | null>(null);
     const [originalPrompt, setOriginalPrompt] = useState('');
     const [codeToInsert, setCodeToInsert] = useState<{ id: string, code: string } | null>(null);
+    const [requireReview, setRequireReview] = useState(false);
+    const [verificationMode, setVerificationMode] = useState<VerificationMode>('off');
+    const [planIssues, setPlanIssues] = useState<PlanIssue[]>([]);
+    const [draftPlan, setDraftPlan] = useState<PlannedTask[] | null>(null); // A generated plan waiting for Run
+    const [sessionId, setSessionId] = useState<string | null>(null);
+    const [sessionName, setSessionName] = useState('Untitled session');
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+    const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+    const pendingSaveRef = useRef<{ timeout: ReturnType<typeof setTimeout>; save: () => Promise<void> } | null>(null);
+    const [providerSettings, setProviderSettings] = useState<Record<string, ProviderConfig>>(loadProviderSettings);
+    const [rememberApiKeys, setRememberApiKeys] = useState(() => localStorage.getItem(REMEMBER_API_KEYS_STORAGE_KEY) === 'true');
+    const [isRecording, setIsRecording] = useState(false);
+    const [recordedCount, setRecordedCount] = useState(0);
 
     // Refs and Memos
-    const ai = useMemo(() => new GoogleGenAI({ apiKey: process.env.API_KEY }), []);
+    const recorderRef = useRef(new ResponseRecorder(setRecordedCount));
+    const agentNames = useMemo(() => agentDefinitions.map(definition => definition.name), [agentDefinitions]);
+    const assignableAgentNames = useMemo(() => getAssignableAgents(agentDefinitions).map(definition => definition.name), [agentDefinitions]);
+    const getAgentDefinition = useCallback((agentName: string) => agentDefinitions.find(definition => definition.name === agentName), [agentDefinitions]);
+    // An agent's own provider settings, or the default provider with the model its registry entry names.
+    const effectiveProviderSettings: Record<string, ProviderConfig> = useMemo(() => Object.fromEntries(agentDefinitions.map(definition => [
+        definition.name,
+        providerSettings[definition.name] || { ...DEFAULT_PROVIDER_CONFIGS.gemini, ...(definition.model ? { model: definition.model } : {}) },
+    ])), [agentDefinitions, providerSettings]);
+    const providers = useMemo(() => {
+        const byAgent: Record<string, LLMProvider> = {};
+        Object.entries(effectiveProviderSettings).forEach(([agentName, config]) => {
+            const provider = createProvider(config);
+            byAgent[agentName] = isRecording ? recorderRef.current.wrap(provider) : provider;
+        });
+        return byAgent;
+    }, [effectiveProviderSettings, isRecording]);
+    const getProvider = useCallback((agentName: string): LLMProvider => providers[agentName] || providers[PLANNER_AGENT_NAME], [providers]);
+    const suggestAgentForTask = useCallback((task: Pick<PlannedTask, 'filePath' | 'files'>) => suggestAgentForFiles(agentDefinitions, getTaskFilePaths(task)), [agentDefinitions]);
+    const allowsFile = useCallback((agentName: string, path: string) => {
+        const definition = getAgentDefinition(agentName);
+        return !definition || canEditFile(definition, path);
+    }, [getAgentDefinition]);
+    const [orchestrator] = useState(() => new Orchestrator({
+        agentNames: agentDefinitions.map(definition => definition.name),
+        executeTask: () => Promise.reject(new Error('Task executor is not configured yet.')),
+        applyChanges: () => {},
+    }));
+    const [resumeRequested, setResumeRequested] = useState(false);
+    // The orchestrator schedules dependent tasks before React re-renders, so agents must read files through this ref.
+    const filesRef = useRef(files);
+    filesRef.current = files;
+    // For handlers that read the planning state after awaiting a model, when the render they closed over is stale.
+    const isPlanningRef = useRef(isPlanning);
+    isPlanningRef.current = isPlanning;
+    const draftPlanRef = useRef(draftPlan);
+    draftPlanRef.current = draftPlan;
+    // What Agentic last wrote to (or mirrored from) the container, per path, in workspace form. Syncing in either
+    // direction compares against it, so neither side mistakes the other's writes for new edits.
+    const containerContentRef = useRef<Record<string, string>>({});
+    const installedDependenciesRef = useRef<string | null>(null); // dependencySignature of the last install
+    const [isInstallingDependencies, setIsInstallingDependencies] = useState(false);
+    const [containerService] = useState(() => new ContainerService({
+        getFiles: () => {
+            const workspace = flattenFiles(filesRef.current);
+            containerContentRef.current = { ...workspace };
+            installedDependenciesRef.current = dependencySignature(workspace['/package.json']); // Installed by the boot sequence
+            return Object.fromEntries(Object.entries(workspace).map(([path, content]) => [path, toContainerContent(path, content)]));
+        },
+    }));
+    const [containerState, setContainerState] = useState<ContainerState>(() => containerService.getState());
+    const containerRef = useRef<WebContainer | null>(null);
+    const container = containerState.container; // For UI that needs to re-render when it boots
+    const containerQueueRef = useRef<Promise<unknown>>(Promise.resolve());
     const allTasks = useMemo(() => agents.flatMap(a => a.tasks).sort((a,b) => a.id.localeCompare(b.id, undefined, { numeric: true })), [agents]);
-    const MAX_AUTO_RETRIES = 1;
+    const hasPlan = allTasks.length > 0 && !draftPlan;
+    const stagedPaths = useMemo(() => Object.keys(stagedFiles).filter(path => stagedFiles[path] !== headFiles[path]), [stagedFiles, headFiles]);
+    const unstagedPaths = useMemo(() => modifiedFiles.filter(path => !(path in stagedFiles) || findFileNode(path, files)?.content !== stagedFiles[path]), [modifiedFiles, stagedFiles, files]);
+    const diff = useMemo(() => {
+        if (!diffPath) return null;
+        const isStaged = diffPath in stagedFiles;
+        return { path: diffPath, original: isStaged ? stagedFiles[diffPath] : (headFiles[diffPath] ?? ''), originalLabel: isStaged ? 'Staged' : 'HEAD' };
+    }, [diffPath, stagedFiles, headFiles]);
 
     // Logging Utils
     const addLog = useCallback((source: string, message: string) => { setTerminalLogs(prev => [...prev, { id: prev.length, time: new Date().toLocaleTimeString(), source, message }]); }, []);
-    const addCommLog = useCallback((agent: string, message: string) => { setCommLogs(prev => [...prev, { id: prev.length, agent, message, time: new Date().toLocaleTimeString() }]); }, []);
+    const addCommLog = useCallback((agent: string, message: string, extra: Pick<CommLog, 'streamId' | 'recipient' | 'threadId'> = {}) => { setCommLogs(prev => [...prev, { id: prev.length, agent, message, time: new Date().toLocaleTimeString(), ...extra }]); }, []);
 
     // File Utils
     const updateFileNode = (path: string, newContent: string, nodes: FileNode[]): FileNode[] => nodes.map(node => {
@@ -1365,6 +2904,9 @@ export function App() {
 
     const addFileNode = (newNode: FileNode, nodes: FileNode[]): FileNode[] => {
         const parentPath = newNode.path.substring(0, newNode.path.lastIndexOf('/')) || '/';
+        if (parentPath !== '/' && !findFileNode(parentPath, nodes)) {
+            nodes = addFileNode({ name: parentPath.split('/').pop() || '', type: 'folder', path: parentPath, children: [] }, nodes);
+        }
         const addRec = (currentNodes: FileNode[]): FileNode[] => currentNodes.map(node => {
             if (node.path === parentPath && node.type === 'folder') {
                 const childExists = node.children?.some(child => child.path === newNode.path);
@@ -1383,6 +2925,33 @@ export function App() {
         return addRec(nodes);
     };
 
+    const applyPendingChange = (change: PendingChange, nodes: FileNode[]): FileNode[] => {
+        if (findFileNode(change.filePath, nodes)) return updateFileNode(change.filePath, change.content, nodes);
+        const name = change.filePath.split('/').pop() || '';
+        const newNode: FileNode = { name, type: 'file', extension: getFileExtension(name), path: change.filePath, content: change.content };
+        return addFileNode(newNode, nodes);
+    };
+
+    const applyTaskChanges = (changes: PendingChange[]) => {
+        if (changes.length === 0) return;
+        const nextFiles = changes.reduce((nodes, change) => applyPendingChange(change, nodes), filesRef.current);
+        filesRef.current = nextFiles;
+        setFiles(nextFiles);
+    };
+
+    const removeFileNode = (path: string, nodes: FileNode[]): FileNode[] => nodes
+        .filter(node => node.path !== path)
+        .map(node => node.type === 'folder' && node.children ? { ...node, children: removeFileNode(path, node.children) } : node);
+
+    // Also closes the removed files' editor tabs.
+    const removeFiles = (paths: string[]) => {
+        const nextFiles = paths.reduce((nodes, path) => removeFileNode(path, nodes), filesRef.current);
+        filesRef.current = nextFiles;
+        setFiles(nextFiles);
+        setOpenFiles(prev => prev.filter(path => !paths.includes(path)));
+        setActiveFile(prev => prev && paths.includes(prev) ? null : prev);
+    };
+
     const serializeFileTree = (nodes: FileNode[], indent = ''): string => {
         let result = '';
         nodes.forEach(node => {
@@ -1396,14 +2965,6 @@ export function App() {
 
     // Effect for detecting file changes against HEAD
     useEffect(() => {
-        const flattenFiles = (nodes: FileNode[]): Record<string, string> => {
-            let flat: Record<string, string> = {};
-            nodes.forEach(node => {
-                if(node.type === 'file' && node.content) flat[node.path] = node.content;
-                if(node.children) flat = {...flat, ...flattenFiles(node.children)};
-            });
-            return flat;
-        }
         const currentFileContent = flattenFiles(files);
         const newModified: string[] = [];
         for (const path in currentFileContent) {
@@ -1411,9 +2972,156 @@ export function App() {
                 if (currentFileContent[path] !== headFiles[path]) newModified.push(path);
             } else newModified.push(path);
         }
-        setModifiedFiles(newModified);
+        const newDeleted = Object.keys(headFiles).filter(path => !(path in currentFileContent));
+        setModifiedFiles([...newModified, ...newDeleted]);
+        setDeletedFiles(newDeleted);
     }, [files, headFiles]);
 
+    // --- SESSION PERSISTENCE ---
+    const applySession = (session: WorkspaceSession) => {
+        const hasPendingTasks = session.agents.some(agent => agent.tasks.some(t => t.state === 'Queued' || t.state === 'Blocked' || t.state === 'Executing'));
+        const paused = !!session.isPaused && hasPendingTasks;
+        orchestrator.restore(session.agents, paused);
+        const canResume = session.isRunning && !paused && orchestrator.getTasks().some(t => t.state === 'Queued' || t.state === 'Blocked');
+        setSessionId(session.id);
+        setSessionName(session.name);
+        setFiles(session.files);
+        setCommLogs(session.commLogs);
+        setTerminalLogs([...session.terminalLogs, { id: session.terminalLogs.length, time: new Date().toLocaleTimeString(), source: 'System', message: `Restored session "${session.name}".` }]);
+        setOpenFiles(session.openFiles);
+        setActiveFile(session.activeFile);
+        setOriginalPrompt(session.originalPrompt);
+        setCommits(session.commits);
+        setHeadCommitId(session.headCommitId);
+        setHeadFiles(session.headFiles);
+        setStagedFiles(session.stagedFiles);
+        setRequireReview(session.requireReview);
+        setPlanIssues(session.planIssues || []);
+        setDraftPlan(session.draftPlan || null);
+        setRuns(session.runs || []);
+        setVerificationMode(session.verificationMode || 'off');
+        setDiffPath(null);
+        setLastSavedAt(session.updatedAt);
+        setIsThinking(canResume);
+        setIsPaused(paused);
+        setAiStatus(canResume ? 'Resuming...' : paused ? 'Paused' : 'Idle');
+        setResumeRequested(canResume);
+        localStorage.setItem(LAST_SESSION_STORAGE_KEY, session.id);
+    };
+
+    const startNewSession = (name = 'Untitled session') => {
+        const id = generateSessionId();
+        setSessionId(id);
+        setSessionName(name);
+        orchestrator.reset();
+        setFiles(initialFiles);
+        setCommLogs([]);
+        setTerminalLogs([{ id: 0, time: new Date().toLocaleTimeString(), source: 'System', message: 'Welcome to Agentic!' }]);
+        setOpenFiles(['/src/App.tsx']);
+        setActiveFile('/src/App.tsx');
+        setOriginalPrompt('');
+        setCommits([]);
+        setHeadCommitId(null);
+        setHeadFiles({});
+        setStagedFiles({});
+        setPlanIssues([]);
+        setDraftPlan(null);
+        setRuns([]);
+        setDiffPath(null);
+        setLastSavedAt(null);
+        setIsThinking(false);
+        setIsPaused(false);
+        setAiStatus('Idle');
+        localStorage.setItem(LAST_SESSION_STORAGE_KEY, id);
+    };
+
+    // Restore the last used session on startup
+    useEffect(() => {
+        const restore = async () => {
+            try {
+                const saved = await listSessions();
+                setSessions(saved);
+                const lastId = localStorage.getItem(LAST_SESSION_STORAGE_KEY);
+                const toLoad = saved.find(s => s.id === lastId) || saved[0];
+                const session = toLoad && await loadSession(toLoad.id);
+                if (session) applySession(session);
+                else startNewSession();
+            } catch (e) {
+                addLog('System', `Could not restore saved session: ${e instanceof Error ? e.message : String(e)}`);
+                startNewSession();
+            }
+        };
+        restore();
+    }, []);
+
+    // Auto-save the workspace shortly after it changes. The pending save is kept in a ref so switching sessions can
+    // flush it instead of losing the last second of edits.
+    useEffect(() => {
+        if (!sessionId) return;
+        const save = async () => {
+            const session: WorkspaceSession = {
+                id: sessionId, name: sessionName, updatedAt: Date.now(),
+                files, agents, commLogs, terminalLogs, openFiles, activeFile, originalPrompt,
+                commits, headCommitId, headFiles, stagedFiles, requireReview, isRunning: isThinking, isPaused, runs, planIssues, draftPlan, verificationMode,
+            };
+            try {
+                await saveSession(session);
+                setLastSavedAt(session.updatedAt);
+                setSessions(prev => prev.some(s => s.id === session.id)
+                    ? prev.map(s => s.id === session.id ? { id: session.id, name: session.name, updatedAt: session.updatedAt } : s)
+                    : [{ id: session.id, name: session.name, updatedAt: session.updatedAt }, ...prev]);
+            } catch (e) {
+                addLog('System', `Could not save session "${session.name}"; recent changes are not saved: ${e instanceof Error ? e.message : String(e)}`);
+            }
+        };
+        const pending = { timeout: setTimeout(() => { pendingSaveRef.current = null; save(); }, 1000), save };
+        pendingSaveRef.current = pending;
+        return () => {
+            clearTimeout(pending.timeout);
+            if (pendingSaveRef.current === pending) pendingSaveRef.current = null;
+        };
+    }, [sessionId, sessionName, files, agents, commLogs, terminalLogs, openFiles, activeFile, originalPrompt, commits, headCommitId, headFiles, stagedFiles, requireReview, isThinking, isPaused, runs, planIssues, draftPlan, verificationMode]);
+
+    const flushPendingSave = async () => {
+        const pending = pendingSaveRef.current;
+        if (!pending) return;
+        pendingSaveRef.current = null;
+        clearTimeout(pending.timeout);
+        await pending.save();
+    };
+
+    const handleSwitchSession = async (id: string) => {
+        if (id === sessionId) return;
+        if (isThinking && !window.confirm('Agents are still working in this session. Switch anyway? Its plan will resume when you come back.')) return;
+        await flushPendingSave();
+        try {
+            const session = await loadSession(id);
+            if (session) applySession(session);
+        } catch (e) {
+            addLog('System', `Could not load session: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    };
+
+    const handleNewSession = async () => {
+        if (isThinking && !window.confirm('Agents are still working in this session. Start a new one anyway? Its plan will resume when you come back.')) return;
+        await flushPendingSave();
+        startNewSession();
+    };
+
+    const handleDeleteSession = async () => {
+        if (!sessionId || !window.confirm(`Delete session "${sessionName}"? This cannot be undone.`)) return;
+        try {
+            await deleteSession(sessionId);
+            const remaining = await listSessions();
+            setSessions(remaining);
+            const next = remaining[0] && await loadSession(remaining[0].id);
+            if (next) applySession(next);
+            else startNewSession();
+        } catch (e) {
+            addLog('System', `Could not delete session: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    };
+
     // Handlers
     const handleSelectFile = (path: string) => {
         if (!openFiles.includes(path)) setOpenFiles([...openFiles, path]);
@@ -1455,16 +3163,158 @@ export function App() {
 
     const handleRetryTask = (taskId: string) => {
         addLog('System', `Manual retry initiated for task ${taskId}.`);
-        setAgents(currentAgents =>
-            currentAgents.map(agent => ({
-                ...agent,
-                tasks: agent.tasks.map(task =>
-                    task.id === taskId && task.state === 'Failed'
-                        ? { ...task, state: 'Queued', retries: 0 }
-                        : task
-                )
-            }))
-        );
+        orchestrator.retryTask(taskId);
+        if (!orchestrator.isRunning && !orchestrator.isPaused) {
+            setIsThinking(true);
+            orchestrator.start();
+        }
+    };
+
+    const handleAbortTask = (taskId: string) => {
+        addLog('System', `Aborting task ${taskId}.`);
+        orchestrator.abortTask(taskId);
+    };
+
+    const handleCancelTask = (taskId: string) => {
+        addLog('System', `Cancelling task ${taskId}.`);
+        orchestrator.cancelTask(taskId);
+    };
+
+    const handlePausePlan = () => {
+        if (!orchestrator.isRunning) return;
+        addCommLog('Orchestrator', 'Paused. Tasks already executing will finish; nothing new starts until you resume.');
+        orchestrator.pause();
+    };
+
+    const handleResumePlan = () => {
+        addCommLog('Orchestrator', 'Resuming the plan.');
+        setIsThinking(true);
+        setAiStatus('Executing plan');
+        orchestrator.resume();
+    };
+
+    // Stops whatever is in progress: the Orchestrator's planning request, or the running (or paused) plan.
+    const handleStopPlan = () => {
+        if (planAbortRef.current) {
+            planAbortRef.current.abort();
+            return;
+        }
+        orchestrator.stop();
+    };
+
+    const handleCommit = (message: string) => {
+        // With nothing staged, commit the whole working tree; otherwise commit HEAD plus the index only.
+        const hasStaged = stagedPaths.length > 0;
+        const snapshot = hasStaged ? { ...headFiles, ...stagedFiles } : flattenFiles(files);
+        const commit: Commit = { id: generateCommitId(), message, author: 'User', date: new Date().toLocaleString(), parentId: headCommitId, files: snapshot };
+        setCommits(prev => [...prev, commit]);
+        setHeadCommitId(commit.id);
+        setHeadFiles(commit.files);
+        setStagedFiles({});
+        addLog('Git', `[${commit.id}] ${message} (${hasStaged ? stagedPaths.length : modifiedFiles.length} file(s) changed)`);
+    };
+
+    const handleOpenDiff = (path: string) => {
+        setDiffPath(path);
+        setActiveMainTab('code');
+    };
+
+    const handleStageFile = (path: string) => {
+        const file = findFileNode(path, files);
+        if (file?.content === undefined) return;
+        setStagedFiles(prev => ({ ...prev, [path]: file.content! }));
+    };
+
+    const handleUnstageFile = (path: string) => {
+        setStagedFiles(prev => {
+            const next = { ...prev };
+            delete next[path];
+            return next;
+        });
+    };
+
+    const handleStageDiff = (path: string, stagedContent: string) => {
+        setStagedFiles(prev => ({ ...prev, [path]: stagedContent }));
+        addLog('Git', `Staged hunk in ${path}`);
+    };
+
+    const handleDiscardDiff = (path: string, workingContent: string) => {
+        setFiles(currentFiles => updateFileNode(path, workingContent, currentFiles));
+        addLog('Git', `Discarded hunk in ${path}`);
+    };
+
+    const restoreSnapshot = (snapshot: Record<string, string>) => {
+        const restoredFiles = buildFileTree(snapshot);
+        setFiles(restoredFiles);
+        const remainingOpenFiles = openFiles.filter(path => path in snapshot);
+        setOpenFiles(remainingOpenFiles);
+        if (activeFile && !(activeFile in snapshot)) setActiveFile(remainingOpenFiles[remainingOpenFiles.length - 1] || null);
+    };
+
+    const handleCheckoutCommit = (commitId: string) => {
+        const commit = commits.find(c => c.id === commitId);
+        if (!commit) return;
+        if (modifiedFiles.length > 0 && !window.confirm(`Checking out ${commit.id} will discard ${modifiedFiles.length} uncommitted change(s). Continue?`)) return;
+        restoreSnapshot(commit.files);
+        setHeadCommitId(commit.id);
+        setHeadFiles(commit.files);
+        setStagedFiles({});
+        addLog('Git', `Checked out ${commit.id}: ${commit.message}`);
+    };
+
+    const handleRevertToCommit = (commitId: string) => {
+        const target = commits.find(c => c.id === commitId);
+        if (!target) return;
+        if (modifiedFiles.length > 0 && !window.confirm(`Reverting to ${target.id} will discard ${modifiedFiles.length} uncommitted change(s). Continue?`)) return;
+        const commit: Commit = { id: generateCommitId(), message: `Revert to ${target.id}: ${target.message}`, author: 'User', date: new Date().toLocaleString(), parentId: headCommitId, files: target.files };
+        restoreSnapshot(target.files);
+        setCommits(prev => [...prev, commit]);
+        setHeadCommitId(commit.id);
+        setHeadFiles(commit.files);
+        setStagedFiles({});
+        addLog('Git', `[${commit.id}] ${commit.message}`);
+    };
+
+    useEffect(() => {
+        saveProviderSettings(providerSettings, rememberApiKeys);
+    }, [providerSettings, rememberApiKeys]);
+
+    useEffect(() => {
+        localStorage.setItem(AGENT_REGISTRY_STORAGE_KEY, JSON.stringify(agentDefinitions));
+        orchestrator.configure({
+            agentNames: agentDefinitions.map(definition => definition.name),
+            concurrency: Object.fromEntries(agentDefinitions.map(definition => [definition.name, definition.concurrency])),
+        });
+    }, [agentDefinitions, orchestrator]);
+
+    const handleSaveAgentDefinitions = (definitions: AgentDefinition[]) => {
+        setAgentDefinitions(definitions);
+        addLog('System', `Agent registry saved with ${definitions.length} agent(s).`);
+    };
+
+    const handleChangeProvider = (agentName: string, config: ProviderConfig) => {
+        setProviderSettings(prev => ({ ...prev, [agentName]: config }));
+    };
+
+    const handleApplyProviderToAll = (config: ProviderConfig) => {
+        setProviderSettings(Object.fromEntries(agentNames.map(name => [name, { ...config }])));
+        addLog('System', `All agents now use ${PROVIDER_KIND_LABELS[config.kind]} (${config.model}).`);
+    };
+
+    const handleReplayRecording = () => {
+        const script = recorderRef.current.script;
+        setIsRecording(false);
+        setProviderSettings(Object.fromEntries(agentNames.map(name => [name, { ...DEFAULT_PROVIDER_CONFIGS.mock, script }])));
+        addLog('System', `All agents now replay ${script.length} recorded response(s) offline.`);
+    };
+
+    const handleDownloadRecording = () => {
+        const blob = new Blob([JSON.stringify(recorderRef.current.script, null, 2)], { type: 'application/json' });
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(blob);
+        link.download = `agentic-recording-${Date.now()}.json`;
+        link.click();
+        URL.revokeObjectURL(link.href);
     };
 
     const handleInsertCodeIntoEditor = useCallback((code: string) => {
@@ -1481,28 +3331,31 @@ export function App() {
 
     // --- AGENT EXECUTION LOGIC ---
 
-    const generateCodeSnippet = useCallback(async (prompt: string): Promise<string> => {
-        addCommLog('UX-Designer', `Generating code for prompt: "${prompt.substring(0, 50)}..."`);
+    const generateCodeSnippet = useCallback(async (prompt: string, onToken?: (chunk: string) => void): Promise<string> => {
+        // The snippet is for the open file, so the agent that may edit it writes it.
+        const agentName = suggestAgentForTask({ filePath: activeFile || '/src/App.tsx' });
+        addCommLog(agentName, `Generating code for prompt: "${prompt.substring(0, 50)}..."`);
         const fullPrompt = `You are an expert coding assistant. Generate a code snippet based on the following request.
     IMPORTANT: Respond ONLY with the raw code snippet. Do not include any explanation, markdown formatting, or anything else. Just the code.
 
     Request: "${prompt}"`;
     
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: fullPrompt,
-        });
+        const response = await getProvider(agentName).generateText({ prompt: fullPrompt, onToken, systemInstruction: getAgentDefinition(agentName)?.systemPrompt.trim() || undefined });
     
-        const code = response.text.trim();
+        const code = response.trim();
         const codeBlockRegex = /`{3}(?:\w+)?\n([\s\S]+?)\n`{3}/;
         const match = code.match(codeBlockRegex);
         if (match) {
             return match[1].trim();
         }
         return code;
-    }, [ai, addCommLog]);
+    }, [getProvider, addCommLog, activeFile, suggestAgentForTask, getAgentDefinition]);
 
-    const generateExecutionPlan = useCallback(async (userRequest: string, fileTree: string): Promise<Omit<AgentTask, 'state' | 'retries'>[]> => {
+    // `corrections` lists problems found in a previous attempt, so the Orchestrator can fix its own plan.
+    // `history` describes earlier runs; `existingTasks` is set for follow-ups, which only add tasks to the current plan.
+    const generateExecutionPlan = useCallback(async (userRequest: string, fileTree: string, { corrections = [], history = '', existingTasks, signal }: {
+        corrections?: PlanIssue[]; history?: string; existingTasks?: AgentTask[]; signal?: AbortSignal;
+    } = {}): Promise<PlannedTask[]> => {
         const planSchema = {
             type: Type.ARRAY,
             items: {
@@ -1511,7 +3364,8 @@ export function App() {
                     id: { type: Type.STRING, description: 'Unique identifier using dot-notation for sub-tasks (e.g., "task-1", "task-1.1").' },
                     description: { type: Type.STRING, description: 'A detailed, granular description of the task.' },
                     filePath: { type: Type.STRING, description: 'The primary file path this task will modify or create.' },
-                    agent: { type: Type.STRING, description: 'The name of the agent best suited for this task (e.g., "Frontend-Dev").' },
+                    files: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Any other file paths this task must modify or create, for changes that span several files. Empty for single-file tasks.' },
+                    agent: { type: Type.STRING, description: `The name of the agent best suited for this task: one of ${getAssignableAgents(agentDefinitions).map(definition => definition.name).join(', ')}.` },
                     dependencies: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'List of task IDs that must be completed before this task can start.' }
                 },
                 required: ['id', 'description', 'filePath', 'agent', 'dependencies']
@@ -1521,86 +3375,145 @@ export function App() {
         const systemInstruction = "You are an expert AI software project orchestrator. Your role is to analyze a user's request, the current codebase, and a list of available AI agents, and then generate a detailed, parallelized execution plan. The plan must be structured as a JSON array of task objects.";
         const prompt = `
             User Request: "${userRequest}"
-
+            ${history ? `
+            Earlier runs in this session, for context (their changes are already in the files below):
+            ${history.split('\n').join('\n            ')}
+            ` : ''}
             Current File Structure:
             ${fileTree}
 
             Available Agents & Specializations (These roles are mutually exclusive and must be strictly followed):
-            - Orchestrator: Manages the overall process. Not assigned to coding tasks.
-            - Frontend-Dev: **Logic ONLY.** Responsible for component structure, state management (e.g., React hooks), event handlers (e.g., onClick), and data flow within \`.tsx\` and \`.jsx\` files. **This agent MUST NOT write any CSS or add/change \`className\` attributes.**
-            - Backend-Dev: Specializes in server-side logic (if applicable).
-            - QA-Tester: Writes and runs tests (e.g., Jest, Vitest).
-            - UX-Designer: **Styling and Layout ONLY.** Exclusively responsible for all visual aspects. This includes:
-                - Writing all CSS in \`.css\` files.
-                - Adding or modifying \`className\` and \`style\` attributes in \`.tsx\` and \`.jsx\` files to apply styles.
-                - Implementing layouts and visual design.
-                - Generating logos or placeholder images.
+            ${describeAgentRoles(agentDefinitions).split('\n').join('\n            ')}
 
             Please generate an execution plan with the following considerations:
             1.  **Granularity & Sub-tasks**: Break down the request into the smallest possible atomic sub-tasks. Use dot-notation for sub-task IDs (e.g., parent 'task-1', sub-tasks 'task-1.1', 'task-1.2').
             2.  **Parallelization**: Identify all tasks that can be executed concurrently. Maximize parallel work by correctly defining dependencies.
-            3.  **Agent Assignment**: Assign the most suitable agent for each task based on their strict, non-overlapping specializations.
-                - Example 1: A request to "add a button that increments a counter" should be split.
-                    - Task A (Frontend-Dev): Add the \`<button>\` element and the \`onClick\` handler logic to \`App.tsx\`.
-                    - Task B (UX-Designer): Add a \`className\` to the new button in \`App.tsx\` and define the corresponding styles in a \`.css\` file.
-                - Example 2: A request to "create a new CSS file for styling" MUST be assigned to 'UX-Designer'.
+            3.  **Agent Assignment**: Assign the most suitable agent for each task based on their strict, non-overlapping specializations. An agent with a file list may only be given tasks whose files all match it (a leading "!" excludes); split work that spans several agents' files into one task per agent.
             4.  **Dependencies**: Meticulously define dependencies using task IDs. A task cannot start until all its dependencies are 'Completed'.
-                - **Infer Dependencies**: You must infer dependencies based on file modifications and task logic. For instance, if 'task-1.1' (Frontend-Dev) adds a new button with a specific \`className\` to \`Component.tsx\`, then 'task-1.2' (UX-Designer) which styles that \`className\` in \`styles.css\` MUST have a dependency on 'task-1.1'. Similarly, a task that creates a file must be a dependency for any task that modifies that same file.
-            5.  **Error Recovery (in description)**: For complex tasks, add a brief note in the description about what to check if it fails, e.g., "(On failure, verify component imports)".
+                - **Infer Dependencies**: You must infer dependencies based on file modifications and task logic. For instance, if 'task-1.1' adds a new button with a specific \`className\` to \`Component.tsx\`, then 'task-1.2' which styles that \`className\` in \`styles.css\` MUST have a dependency on 'task-1.1'. Similarly, a task that creates a file must be a dependency for any task that modifies that same file.
+            5.  **Multi-file Tasks**: When one logical change must touch several files at once (e.g., renaming a component and updating its imports), keep it in a single task: put the main file in \`filePath\` and the others in \`files\`.
+            6.  **Error Recovery (in description)**: For complex tasks, add a brief note in the description about what to check if it fails, e.g., "(On failure, verify component imports)".
 
             The output must be a valid JSON array matching the provided schema.
+            ${existingTasks ? `
+            This is a follow-up to a plan that is already underway. It has these tasks:
+            ${existingTasks.map(task => `- ${task.id} [${task.state}, ${task.agent}]: ${task.description} (${getTaskFilePaths(task).join(', ')})`).join('\n            ')}
+            Return ONLY the new tasks the follow-up needs; do not repeat the tasks above. New task IDs must not reuse the IDs above. New tasks may depend on the tasks above, and should whenever they touch the same files.
+            ` : ''}
+            ${corrections.length > 0 ? `
+            Your previous plan for this request was invalid. Produce a corrected plan that fixes every one of these problems:
+            ${corrections.map(issue => `- ${issue.message}`).join('\n            ')}
+            Task IDs must be unique, every dependency must name a task in the plan${existingTasks ? ' (new or existing)' : ''}, dependencies must not form a cycle, and agents must be one of the names listed above.
+            ` : ''}
         `;
         
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: planSchema,
-            },
+        const response = await getProvider(PLANNER_AGENT_NAME).generateText({
+            prompt,
+            systemInstruction,
+            json: { schema: planSchema },
+            signal,
         });
         
-        return JSON.parse(response.text);
-    }, [ai]);
-
-    const generateCodeForTask = useCallback(async (task: AgentTask, agentName: string): Promise<string> => {
-        const file = findFileNode(task.filePath, files);
-        const currentContent = file?.content || (file ? '' : '# This is a new file');
-        const fileTree = serializeFileTree(files);
-
-        let agentSpecificInstructions = '';
-        if (agentName === 'UX-Designer') {
-            agentSpecificInstructions = `
-**UX-Designer Specific Instructions (CRITICAL):**
-- **CSS Variables ARE MANDATORY**: You MUST define and use CSS variables for all styling properties, including colors, spacing (padding, margin, gap), and font sizes.
-- **Define in \`:root\`**: All CSS variables must be defined within a \`:root\` selector in the relevant CSS file. If the selector doesn't exist, you must create it.
-- **Use Variables Everywhere**: After defining them, you MUST use the \`var()\` function to apply these variables throughout your CSS rules. Do not use any hardcoded values like \`#FFF\`, \`16px\`, or \`2rem\` directly in your styles.
-- **Example**:
-  \`\`\`css
-  :root {
-    --primary-color: #3b82f6;
-    --text-color: #e5e7eb;
-    --spacing-medium: 16px;
-  }
-  .my-button {
-    background-color: var(--primary-color);
-    padding: var(--spacing-medium);
-    color: var(--text-color);
-  }
-  \`\`\`
-- **Maintainability**: Ensure the CSS is well-organized and reusable.
+        return JSON.parse(response);
+    }, [getProvider, agentDefinitions]);
+
+    // Lets an agent answer a message addressed to it and decide whether it calls for a new task or a change to one of
+    // its unfinished tasks.
+    const generateDirectMessageReply = useCallback(async (agentName: string, message: string, tasks: AgentTask[]): Promise<DirectMessageDecision> => {
+        const decisionSchema = {
+            type: Type.OBJECT,
+            properties: {
+                reply: { type: Type.STRING, description: 'A short reply to the user, in the first person.' },
+                action: { type: Type.STRING, enum: ['task', 'amend', 'none'], description: '"task" to add a new task, "amend" to change one of your unfinished tasks, "none" if the message needs no code changes.' },
+                taskId: { type: Type.STRING, description: 'For "amend": the ID of the task to change.' },
+                description: { type: Type.STRING, description: 'For "task": what the new task must do. For "amend": the complete new description of the task.' },
+                filePath: { type: Type.STRING, description: 'For "task": the primary file the task will modify or create.' },
+                files: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'For "task": any other files the task must modify or create.' },
+            },
+            required: ['reply', 'action'],
+        };
+        const definition = getAgentDefinition(agentName);
+        const unfinished = tasks.filter(task => task.state === 'Queued' || task.state === 'Blocked' || task.state === 'Executing');
+        const prompt = `
+The user sent you a direct message: "${message}"
+
+The overall user request is: "${originalPrompt || 'none yet'}".
+
+Your tasks in the current plan:
+${tasks.length > 0 ? tasks.map(task => `- ${task.id} [${task.state}]: ${task.description} (${getTaskFilePaths(task).join(', ')})`).join('\n') : '(none)'}
+
+Current File Structure:
+${serializeFileTree(filesRef.current)}
+
+If the message changes what one of your unfinished tasks (${unfinished.map(task => task.id).join(', ') || 'none'}) should do, amend it with a complete new description. If it asks for new work, describe a new task${definition && definition.fileGlobs.length > 0 ? ` on files matching ${definition.fileGlobs.join(', ')}` : ''}. Stay within your own role; if the message is meant for another agent, say so in the reply and take no action.
 `;
+        const response = await getProvider(agentName).generateText({
+            prompt,
+            systemInstruction: [
+                `You are ${agentName}, one of several AI agents building a React application together. You answer messages from the user directly.`,
+                definition && `Your role: ${definition.role}`,
+                definition?.systemPrompt.trim(),
+            ].filter(Boolean).join('\n\n'),
+            json: { schema: decisionSchema },
+        });
+        return JSON.parse(response);
+    }, [getProvider, getAgentDefinition, originalPrompt]);
+
+    // Streams a task's response into liveOutputs, which the editor and the Communications log show while it generates.
+    // The agent's system prompt from the registry goes with every request.
+    const generateTaskResponse = useCallback(async (task: AgentTask, agentName: string, prompt: string, signal?: AbortSignal): Promise<string> => {
+        const streamId = `${task.id}#${(task.attempts?.length || 0) + 1}`;
+        let text = '';
+        setLiveOutputs(prev => ({ ...prev, [streamId]: { taskId: task.id, agent: agentName, filePaths: getTaskFilePaths(task), text } }));
+        addCommLog(agentName, '', { streamId });
+        try {
+            return await getProvider(agentName).generateText({
+                prompt,
+                systemInstruction: getAgentDefinition(agentName)?.systemPrompt.trim() || undefined,
+                signal,
+                onToken: chunk => {
+                    text += chunk;
+                    setLiveOutputs(prev => prev[streamId] ? { ...prev, [streamId]: { ...prev[streamId], text } } : prev);
+                },
+            });
+        } finally {
+            setLiveOutputs(prev => { const { [streamId]: _, ...rest } = prev; return rest; });
+            const kept = text.length > MAX_STREAM_LOG_LENGTH ? `${text.slice(0, MAX_STREAM_LOG_LENGTH)}\n... (${text.length - MAX_STREAM_LOG_LENGTH} more characters)` : text;
+            const message = signal?.aborted ? `${kept}\n[${ABORTED_ERROR}]` : kept;
+            setCommLogs(prev => prev.map(log => log.streamId === streamId ? { ...log, message } : log));
         }
+    }, [getProvider, getAgentDefinition, addCommLog]);
+
+    // Agents answer with SEARCH/REPLACE edits (see patches.ts) rather than whole files, so large files and
+    // cross-file changes fit in a response. A block that doesn't apply fails the task with the reason.
+    const generateCodeForTask = useCallback(async (task: AgentTask, agentName: string, signal?: AbortSignal): Promise<{ changes: PendingChange[]; response: string }> => {
+        const filePaths = getTaskFilePaths(task);
+        const readFile = (path: string) => {
+            const file = findFileNode(path, filesRef.current);
+            return file ? file.content ?? '' : undefined;
+        };
+        const fileSections = filePaths.map(path => {
+            const content = readFile(path);
+            if (content === undefined) return `\`${path}\` does not exist yet; create it.`;
+            return `\`${path}\`:
+\`\`\`${getLanguageForExtension(path.split('.').pop())}
+${content}
+\`\`\``;
+        }).join('\n\n');
+        const fileTree = serializeFileTree(filesRef.current);
+
+        const definition = getAgentDefinition(agentName);
+        const testInstructions = definition?.runsTests ? `
+**Testing (CRITICAL):**
+- The suite is run with \`${TEST_COMMAND.slice(0, 3).join(' ')}\` right after your edits; failing tests are sent back to the agent that wrote the code, so test the behaviour the user asked for.
+` : '';
         
-        const prompt = `You are the ${agentName} agent.
+        const prompt = `You are the ${agentName} agent.${definition ? `\nYour role: ${definition.role}` : ''}
 Your current task is: "${task.description}".
 The overall user request is: "${originalPrompt}".
 
-You are working on the file: \`${task.filePath}\`.
-The current content of the file is:
-\`\`\`${getLanguageForExtension(file?.extension)}
-${currentContent}
-\`\`\`
+You may edit these files, and only these files:
+${fileSections}
 
 Here is the full file tree for context:
 ${fileTree}
@@ -1616,28 +3529,35 @@ ${fileTree}
         - Use roles like \`navigation\`, \`main\`, \`region\`, \`tablist\`, \`tab\`, and \`tabpanel\` where appropriate to create a semantic and navigable structure.
 - **User Experience (UX)**: When implementing features like adding an item to a list, ensure the text input field is cleared after the item is successfully added. This allows for faster consecutive entries.
 
-${agentSpecificInstructions}
+${testInstructions}
+${describePreviousAttempts(task)}
+Based on all the above, make the changes this task needs.
+${EDIT_FORMAT_INSTRUCTIONS}
 
-Based on all the above, provide the new, complete content for the file \`${task.filePath}\`.
-IMPORTANT: Respond ONLY with the raw file content. Do not include any explanation, markdown formatting, or anything else. Just the code.
+${DEPENDENCY_INSTRUCTIONS}
 `;
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
-
-        let newContent = response.text.trim();
-        const codeBlockRegex = /```(?:\w+)?\n([\s\S]+?)\n```/;
-        const match = newContent.match(codeBlockRegex);
-        if (match) {
-            newContent = match[1].trim();
+        const response = await generateTaskResponse(task, agentName, prompt, signal);
+        try {
+            const dependencyChanges = await resolveDependencyVersions(parseDependencyDirectives(response));
+            // A task may only need packages, in which case there are no edit blocks
+            const isDependencyOnly = dependencyChanges.length > 0 && !/^<{5,9} SEARCH/m.test(response);
+            const changes = isDependencyOnly ? [] : applyFileEdits(parseEditResponse(response), readFile, filePaths);
+            if (dependencyChanges.length > 0) {
+                const edited = changes.find(change => change.filePath === '/package.json');
+                const content = applyDependencyChanges(edited?.content ?? readFile('/package.json') ?? '{}', dependencyChanges);
+                if (edited) edited.content = content;
+                else changes.push({ filePath: '/package.json', content, isNewFile: readFile('/package.json') === undefined });
+                addCommLog(agentName, `Dependency changes: ${dependencyChanges.map(describeDependencyChange).join(', ')}`);
+            }
+            return { changes, response };
+        } catch (e) {
+            throw new TaskError(e instanceof Error ? e.message : String(e), {}, response);
         }
-        return newContent;
-    }, [ai, files, originalPrompt]);
+    }, [generateTaskResponse, getAgentDefinition, originalPrompt, addCommLog]);
 
-    const generateCodeWithImage = useCallback(async (task: AgentTask, agentName: string, imageUri: string): Promise<string> => {
-        const file = findFileNode(task.filePath, files);
+    const generateCodeWithImage = useCallback(async (task: AgentTask, agentName: string, imageUri: string, signal?: AbortSignal): Promise<string> => {
+        const file = findFileNode(task.filePath, filesRef.current);
         const currentContent = file?.content || '';
 
         const prompt = `You are the ${agentName} agent.
@@ -1651,7 +3571,7 @@ The current content of the file is:
 \`\`\`${getLanguageForExtension(file?.extension)}
 ${currentContent}
 \`\`\`
-
+${describePreviousAttempts(task)}
 Your goal is to intelligently insert an \`<img>\` tag with the provided image data URI as its \`src\` into the current file content.
 - Place it in a semantically appropriate location based on the task description.
 - If there's an existing placeholder or image to be replaced, replace it.
@@ -1660,225 +3580,688 @@ Your goal is to intelligently insert an \`<img>\` tag with the provided image da
 IMPORTANT: Respond ONLY with the raw, full file content. Do not include any explanation, markdown formatting, or anything else. Just the code.
 `;
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-        });
+        const response = await generateTaskResponse(task, agentName, prompt, signal);
 
-        let newContent = response.text.trim();
+        let newContent = response.trim();
         const codeBlockRegex = /```(?:\w+)?\n([\s\S]+?)\n```/;
         const match = newContent.match(codeBlockRegex);
         if (match) {
             newContent = match[1].trim();
         }
         return newContent;
-    }, [ai, files, originalPrompt]);
+    }, [generateTaskResponse, originalPrompt]);
 
 
-    const executeTask = useCallback(async (task: AgentTask, agentName: string) => {
-        setAiStatus(`Executing: ${task.description}`);
-        addCommLog(agentName, `Starting task: "${task.description}" (Attempt ${task.retries + 1})`);
-        
-        try {
-            const isImageTask = agentName === 'UX-Designer' && /placeholder|dummy image|wireframe|logo/i.test(task.description);
-            let newContent;
-
-            if (isImageTask) {
-                let imageUrl = '';
-                const isLogoTask = /logo/i.test(task.description);
-
-                if (isLogoTask) {
-                    addCommLog(agentName, `Recognized logo generation task. Generating logo with Imagen...`);
-                    try {
-                        const imagePrompt = task.description;
-                        const response = await ai.models.generateImages({
-                            model: 'imagen-4.0-generate-001',
-                            prompt: imagePrompt || 'a modern logo for a web application',
-                            config: {
-                                numberOfImages: 1,
-                                outputMimeType: 'image/png',
-                                aspectRatio: '1:1',
-                            },
-                        });
-                        const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-                        imageUrl = `data:image/png;base64,${base64ImageBytes}`;
-                        addCommLog(agentName, `Successfully generated logo.`);
-                    } catch (imageError) {
-                        const message = imageError instanceof Error ? imageError.message : String(imageError);
-                        addLog('Agent', `Logo generation failed: ${message}. Falling back to SVG placeholder.`);
-                        imageUrl = ''; // Ensure fallback is triggered
-                    }
-                }
+    const runAgentTask = useCallback(async (task: AgentTask, signal?: AbortSignal): Promise<TaskExecutionResult> => {
+        if (task.runOnly) return { changes: [] };
+        const agentName = task.agent;
+        const isImageTask = !!getAgentDefinition(agentName)?.generatesImages && /placeholder|dummy image|wireframe|logo/i.test(task.description);
+        let changes: PendingChange[];
+        let output: string;
+
+        if (isImageTask) {
+            let imageUrl = '';
+            const isLogoTask = /logo/i.test(task.description);
 
-                if (!imageUrl) {
-                    addCommLog(agentName, isLogoTask ? 'Falling back to SVG placeholder...' : 'Generating SVG placeholder...');
-                    const sizeMatch = task.description.match(/(\d+)\s?x\s?(\d+)/);
-                    const width = sizeMatch ? parseInt(sizeMatch[1], 10) : 150;
-                    const height = sizeMatch ? parseInt(sizeMatch[2], 10) : 100;
-                    
-                    let text = 'Placeholder';
-                    const textMatch = task.description.match(/(?:text|label|content)\s*['"]([^'"]+)['"]/i);
-                    if (textMatch && textMatch[1]) {
-                        text = textMatch[1];
-                    } else if (isLogoTask) {
-                        text = "Logo";
-                    }
-
-                    imageUrl = generatePlaceholderSVG(width, height, text);
+            const provider = getProvider(agentName);
+            if (isLogoTask && provider.generateImage) {
+                addCommLog(agentName, `Recognized logo generation task. Generating logo with ${provider.label}...`);
+                try {
+                    imageUrl = await provider.generateImage({ prompt: task.description || 'a modern logo for a web application', aspectRatio: '1:1' });
+                    addCommLog(agentName, `Successfully generated logo.`);
+                } catch (imageError) {
+                    const message = imageError instanceof Error ? imageError.message : String(imageError);
+                    addLog('Agent', `Logo generation failed: ${message}. Falling back to SVG placeholder.`);
+                    imageUrl = ''; // Ensure fallback is triggered
                 }
+            }
+
+            if (!imageUrl) {
+                addCommLog(agentName, isLogoTask ? 'Falling back to SVG placeholder...' : 'Generating SVG placeholder...');
+                const sizeMatch = task.description.match(/(\d+)\s?x\s?(\d+)/);
+                const width = sizeMatch ? parseInt(sizeMatch[1], 10) : 150;
+                const height = sizeMatch ? parseInt(sizeMatch[2], 10) : 100;
                 
-                newContent = await generateCodeWithImage(task, agentName, imageUrl);
+                let text = 'Placeholder';
+                const textMatch = task.description.match(/(?:text|label|content)\s*['"]([^'"]+)['"]/i);
+                if (textMatch && textMatch[1]) {
+                    text = textMatch[1];
+                } else if (isLogoTask) {
+                    text = "Logo";
+                }
 
-            } else {
-                newContent = await generateCodeForTask(task, agentName);
+                imageUrl = generatePlaceholderSVG(width, height, text);
             }
+            
+            const content = await generateCodeWithImage(task, agentName, imageUrl, signal);
+            changes = [{ filePath: task.filePath, content, isNewFile: !findFileNode(task.filePath, filesRef.current) }];
+            output = content;
+        } else {
+            ({ changes, response: output } = await generateCodeForTask(task, agentName, signal));
+        }
 
-            const file = findFileNode(task.filePath, files);
-            if (file) {
-                const formattedContent = await formatCodeWithPrettier(newContent, file.extension || '');
-                setFiles(currentFiles => updateFileNode(task.filePath, formattedContent, currentFiles));
-            } else {
-                const parts = task.filePath.split('/');
-                const name = parts.pop() || '';
-                const extension = name.split('.').pop() || '';
-                const formattedContent = await formatCodeWithPrettier(newContent, extension);
-                const newNode: FileNode = { name, type: 'file', extension, path: task.filePath, content: formattedContent };
-                setFiles(currentFiles => addFileNode(newNode, currentFiles));
+        return {
+            output,
+            changes: await Promise.all(changes.map(async change => ({ ...change, content: await formatCodeWithPrettier(change.content, change.filePath.split('.').pop() || '') }))),
+        };
+    }, [addCommLog, addLog, generateCodeForTask, generateCodeWithImage, getProvider, getAgentDefinition]);
+
+    const handlePreviewMessage = useCallback((message: PreviewMessage) => {
+        let entry: Omit<TerminalLog, 'id' | 'time'>;
+        if (message.type === 'console') {
+            entry = { source: `Preview console.${message.level}`, message: message.text };
+            if (message.level === 'error') {
+                entry.previewError = { message: message.text.split('\n')[0], stack: message.text, location: findStackLocation(message.text) };
             }
+        } else {
+            const text = message.stack?.includes(message.message) ? message.stack : [message.message, message.stack].filter(Boolean).join('\n');
+            entry = { source: 'Preview error', message: text, previewError: { message: message.message, stack: message.stack, location: findStackLocation(message.stack, message.filename) } };
+        }
+        setTerminalLogs(prev => [...prev, { id: prev.length, time: new Date().toLocaleTimeString(), ...entry }]);
+    }, []);
 
-            addCommLog(agentName, `Task "${task.description}" completed successfully.`);
-            setAgents(currentAgents => currentAgents.map(agent => agent.name === agentName ? {
-                ...agent, status: 'Idle', tasks: agent.tasks.map(t => t.id === task.id ? { ...t, state: 'Completed' } : t)
-            } : agent));
+    // Hands a preview error to the agent that last wrote the file it points at, as a new task in the current plan.
+    const handleFixPreviewError = (log: TerminalLog) => {
+        if (!log.previewError) return;
+        const { message, stack, location } = log.previewError;
+        const filePath = location && findFileNode(location.filePath, filesRef.current) ? location.filePath : '/src/App.tsx';
+        const agent = findLastAuthor(orchestrator.getTasks(), filePath) || suggestAgentForTask({ filePath });
+        const where = location?.line ? ` (reported at ${filePath}:${location.line})` : '';
+        const trace = stack ? `\nStack trace:\n${stack.split('\n').slice(0, 8).join('\n')}` : '';
+        orchestrator.addTasks([{
+            id: `fix-${Date.now().toString(36)}`,
+            agent,
+            filePath,
+            dependencies: [],
+            description: `Fix this runtime error from the live preview${where}: ${message}${trace}`,
+        }]);
+        addCommLog(agent, `Picking up a preview error in ${filePath}: ${message}`);
+        setIsThinking(true);
+        setAiStatus('Fixing preview error');
+        orchestrator.start();
+    };
 
-        } catch (e) {
-            const errorMessage = e instanceof Error ? e.message : String(e);
-            addLog('Agent', `Task "${task.description}" failed: ${errorMessage}`);
-            const newRetryCount = task.retries + 1;
-            
-            if (newRetryCount <= MAX_AUTO_RETRIES) {
-                addCommLog(agentName, `Retrying task "${task.description}".`);
-                setAgents(currentAgents => currentAgents.map(agent => agent.name === agentName ? {
-                    ...agent, status: 'Idle', tasks: agent.tasks.map(t => t.id === task.id ? { ...t, state: 'Queued', retries: newRetryCount } : t)
-                } : agent));
-            } else {
-                addCommLog(agentName, `Task "${task.description}" failed after max retries.`);
-                setAgents(currentAgents => currentAgents.map(agent => agent.name === agentName ? {
-                    ...agent, status: 'Idle', tasks: agent.tasks.map(t => t.id === task.id ? { ...t, state: 'Failed' } : t)
-                } : agent));
+    const waitForContainer = async (): Promise<WebContainer> => {
+        const deadline = Date.now() + CONTAINER_WAIT_MS;
+        while (!containerRef.current) {
+            if (Date.now() > deadline) throw new Error('The WebContainer is not ready; check the Live Preview for errors.');
+            await new Promise(resolve => setTimeout(resolve, 500));
+        }
+        return containerRef.current;
+    };
+
+    // Agent commands share the preview's file system, so they run one at a time.
+    const withContainer = <T,>(run: (wc: WebContainer) => Promise<T>): Promise<T> => {
+        const next = containerQueueRef.current.catch(() => {}).then(async () => run(await waitForContainer()));
+        containerQueueRef.current = next;
+        return next;
+    };
+
+    // Writes only what differs, so the dev server doesn't reload for unchanged files.
+    const writeContainerFiles = async (wc: WebContainer, flat: Record<string, string>) => {
+        for (const [path, workspaceContent] of Object.entries(flat)) {
+            const content = toContainerContent(path, workspaceContent);
+            containerContentRef.current[path] = workspaceContent;
+            const current = await wc.fs.readFile(path, 'utf-8').catch(() => null);
+            if (current === content) continue;
+            const dir = path.slice(0, path.lastIndexOf('/'));
+            if (dir) await wc.fs.mkdir(dir, { recursive: true });
+            await wc.fs.writeFile(path, content);
+        }
+    };
+
+    // Killed after `timeoutMs`, or when `signal` aborts.
+    const runContainerCommand = async (wc: WebContainer, argv: string[], logSource: string, timeoutMs: number, signal?: AbortSignal): Promise<{ exitCode: number; output: string }> => {
+        if (signal?.aborted) throw new Error(ABORTED_ERROR);
+        addLog(logSource, `$ ${argv.join(' ')}`);
+        const childProcess = await wc.spawn(argv[0], argv.slice(1), { env: { CI: 'true' } });
+        let output = '';
+        const piped = childProcess.output.pipeTo(new WritableStream({ write(data) { output += data; addLog(logSource, data); } }))
+            .catch(error => addLog(logSource, `Error reading output: ${error instanceof Error ? error.message : String(error)}`));
+        const kill = () => childProcess.kill();
+        const timeout = setTimeout(kill, timeoutMs);
+        signal?.addEventListener('abort', kill);
+        const exitCode = await childProcess.exit;
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', kill);
+        await piped; // The tail of the output can still be buffered when the process exits
+        return { exitCode, output };
+    };
+
+    const readContainerFiles = async (wc: WebContainer, dir = ''): Promise<Record<string, string>> => {
+        const flat: Record<string, string> = {};
+        const entries = await wc.fs.readdir(dir || '/', { withFileTypes: true });
+        for (const entry of entries) {
+            if (CONTAINER_SYNC_IGNORED.has(entry.name)) continue;
+            const path = `${dir}/${entry.name}`;
+            if (entry.isDirectory()) {
+                Object.assign(flat, await readContainerFiles(wc, path));
+                continue;
             }
+            const content = await wc.fs.readFile(path, 'utf-8').catch(() => null);
+            if (content === null || content.length > CONTAINER_SYNC_MAX_FILE_SIZE || content.includes('\u0000')) continue;
+            flat[path] = path === '/index.html' ? stripPreviewBridge(content) : content;
         }
-    }, [addCommLog, addLog, files, generateCodeForTask, generateCodeWithImage, MAX_AUTO_RETRIES, ai, originalPrompt]);
+        return flat;
+    };
 
+    // The container lives as long as the app; views only observe it.
     useEffect(() => {
-        if (!isThinking) return;
-
-        // --- State Consistency: Block tasks with failed dependencies ---
-        const failedTaskIds = new Set(allTasks.filter(t => t.state === 'Failed').map(t => t.id));
-        if (failedTaskIds.size > 0) {
-            const tasksToBlock = new Set<string>();
-            allTasks.forEach(task => {
-                const hasFailedDep = (task.dependencies || []).some(dep => failedTaskIds.has(dep));
-                if (hasFailedDep && task.state !== 'Blocked' && task.state !== 'Failed' && task.state !== 'Completed') {
-                    tasksToBlock.add(task.id);
-                }
-            });
-            
-            if (tasksToBlock.size > 0) {
-                setAgents(currentAgents => currentAgents.map(agent => ({
-                    ...agent,
-                    tasks: agent.tasks.map(task => tasksToBlock.has(task.id) ? { ...task, state: 'Blocked' } : task)
-                })));
-                return; // State will update, effect will re-run with consistent data
+        const unsubscribers = [
+            containerService.on('stateChanged', state => {
+                containerRef.current = state.container;
+                setContainerState(state);
+            }),
+            containerService.on('output', ({ source, text }) => addLog(source, text)),
+        ];
+        containerService.start();
+        return () => {
+            unsubscribers.forEach(unsubscribe => unsubscribe());
+            containerService.stop();
+        };
+    }, [containerService, addLog]);
+
+    // Writes workspace edits into the container so the dev server picks them up.
+    useEffect(() => {
+        if (!container) return;
+        const workspace = flattenFiles(files);
+        const recorded = containerContentRef.current;
+        const promises: Promise<void>[] = [];
+        const updatedPaths: string[] = [];
+
+        for (const path in workspace) {
+            if (recorded[path] !== workspace[path]) {
+                const dir = path.slice(0, path.lastIndexOf('/'));
+                promises.push((dir ? container.fs.mkdir(dir, { recursive: true }) : Promise.resolve()).then(() => container.fs.writeFile(path, toContainerContent(path, workspace[path]))));
+                updatedPaths.push(path.split('/').pop() || path);
             }
         }
-        
-        // --- Execution Logic: Find and run available tasks ---
-        const completedTaskIds = new Set(allTasks.filter(t => t.state === 'Completed').map(t => t.id));
-        const availableAgents = agents.filter(a => a.status === 'Idle' && a.tasks.some(t => ['Queued', 'Blocked'].includes(t.state)));
-        
-        let runnableTasks: {task: AgentTask, agentName: string}[] = [];
-        availableAgents.forEach(agent => {
-            const task = agent.tasks.find(t => 
-                ['Queued', 'Blocked'].includes(t.state) && 
-                (t.dependencies || []).every(dep => completedTaskIds.has(dep))
-            );
-            if (task) {
-                runnableTasks.push({ task, agentName: agent.name });
+        for (const path in recorded) {
+            if (!(path in workspace)) {
+                promises.push(container.fs.rm(path, { force: true }));
+                updatedPaths.push(`(deleted) ${path.split('/').pop() || path}`);
+            }
+        }
+        if (promises.length === 0) return;
+
+        addLog('Preview', `Syncing ${promises.length} file change(s): ${updatedPaths.slice(0, 3).join(', ')}${updatedPaths.length > 3 ? '...' : ''}`);
+        // Recorded before writing, so the watcher recognises the resulting events as echoes
+        containerContentRef.current = workspace;
+        Promise.all(promises).catch(e => addLog('Preview', `Error syncing files: ${e instanceof Error ? e.message : String(e)}`));
+    }, [files, container, addLog]);
+
+    const installDependencies = () => withContainer(async wc => {
+        setIsInstallingDependencies(true);
+        try {
+            await writeContainerFiles(wc, { '/package.json': flattenFiles(filesRef.current)['/package.json'] ?? '{}' });
+            const { exitCode } = await runContainerCommand(wc, INSTALL_COMMAND, 'npm', INSTALL_TIMEOUT_MS);
+            addLog('npm', exitCode === 0 ? 'Dependencies installed.' : `npm install failed with exit code ${exitCode}.`);
+        } finally {
+            setIsInstallingDependencies(false);
+        }
+    }).catch(error => addLog('npm', `Error installing dependencies: ${error instanceof Error ? error.message : String(error)}`));
+
+    // Reinstalls whenever package.json's dependencies change, whoever changed them: agents, the dependencies
+    // panel, the editor or the shell.
+    useEffect(() => {
+        if (!container) return;
+        const signature = dependencySignature(flattenFiles(files)['/package.json']);
+        if (signature === null || signature === installedDependenciesRef.current) return;
+        installedDependenciesRef.current = signature;
+        installDependencies();
+    }, [files, container]);
+
+    const handleDependencyChanges = async (changes: DependencyChange[]) => {
+        try {
+            const resolved = await resolveDependencyVersions(changes);
+            const content = applyDependencyChanges(flattenFiles(filesRef.current)['/package.json'] ?? '{}', resolved);
+            applyTaskChanges([{ filePath: '/package.json', content, isNewFile: false }]);
+            addLog('npm', `Updated package.json: ${resolved.map(describeDependencyChange).join(', ')}`);
+        } catch (error) {
+            addLog('npm', `Could not update package.json: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    // Mirrors paths the container reported as changed into the workspace. Content that matches what Agentic last
+    // wrote is an echo of its own sync and is skipped; a path only counts as deleted if it was known to be there.
+    const syncFromContainer = (paths: string[]) => withContainer(async wc => {
+        const recorded = containerContentRef.current;
+        const workspace = flattenFiles(filesRef.current);
+        const found: Record<string, string> = {};
+        const deleted: string[] = [];
+        for (const path of paths) {
+            const content = await wc.fs.readFile(path, 'utf-8').catch(() => null);
+            if (content !== null) {
+                if (content.length <= CONTAINER_SYNC_MAX_FILE_SIZE && !content.includes('\u0000')) found[path] = path === '/index.html' ? stripPreviewBridge(content) : content;
+                continue;
+            }
+            const isDirectory = await wc.fs.readdir(path).then(() => true, () => false);
+            if (isDirectory) {
+                Object.assign(found, await readContainerFiles(wc, path));
+                continue;
             }
+            deleted.push(...Object.keys(recorded).filter(known => known === path || known.startsWith(`${path}/`)));
+        }
+
+        const changes: PendingChange[] = [];
+        for (const [filePath, content] of Object.entries(found)) {
+            if (recorded[filePath] === content) continue;
+            recorded[filePath] = content;
+            if (workspace[filePath] !== content) changes.push({ filePath, content, isNewFile: !(filePath in workspace) });
+        }
+        deleted.forEach(path => delete recorded[path]);
+        const removed = deleted.filter(path => path in workspace);
+        if (changes.length === 0 && removed.length === 0) return;
+
+        applyTaskChanges(changes);
+        if (removed.length > 0) removeFiles(removed);
+        const summary = [...changes.map(change => change.filePath), ...removed.map(path => `(deleted) ${path}`)];
+        addLog('Sync', `Mirrored ${summary.length} change(s) from the container: ${summary.slice(0, 3).join(', ')}${summary.length > 3 ? '...' : ''}`);
+    }).catch(error => addLog('Sync', `Error mirroring container changes: ${error instanceof Error ? error.message : String(error)}`));
+
+    // Watches the whole container, so edits from the shell, npm and generators all reach the workspace.
+    useEffect(() => {
+        if (!container) return;
+        const pending = new Set<string>();
+        let flushTimer: ReturnType<typeof setTimeout> | undefined;
+        const watcher = container.fs.watch('/', { recursive: true }, (_event, filename) => {
+            const name = typeof filename === 'string' ? filename : new TextDecoder().decode(filename);
+            const path = `/${name.replace(/^\/+/, '')}`;
+            if (path.split('/').some(segment => CONTAINER_SYNC_IGNORED.has(segment))) return;
+            pending.add(path);
+            clearTimeout(flushTimer);
+            flushTimer = setTimeout(() => {
+                const paths = [...pending];
+                pending.clear();
+                syncFromContainer(paths);
+            }, CONTAINER_SYNC_DEBOUNCE_MS);
         });
-        
-        if (runnableTasks.length > 0) {
-            setAgents(currentAgents => {
-                const runnableTaskIds = new Set(runnableTasks.map(rt => rt.task.id));
-                const involvedAgentNames = new Set(runnableTasks.map(rt => rt.agentName));
-                return currentAgents.map(agent => {
-                    if (involvedAgentNames.has(agent.name)) {
-                        return { ...agent, status: 'Working', tasks: agent.tasks.map(t => runnableTaskIds.has(t.id) ? { ...t, state: 'Executing' } : t) };
-                    }
-                    return agent;
-                });
-            });
-            runnableTasks.forEach(({ task, agentName }) => executeTask(task, agentName));
-        } else {
-            const anyExecuting = allTasks.some(t => t.state === 'Executing');
-            const allDone = allTasks.every(t => ['Completed', 'Failed', 'Blocked'].includes(t.state));
-            if (!anyExecuting && allTasks.length > 0 && allDone) {
-                const anyFailed = allTasks.some(t => t.state === 'Failed' || t.state === 'Blocked');
-                addCommLog('Orchestrator', anyFailed ? 'Finished with errors.' : 'All tasks completed successfully!');
+        return () => { clearTimeout(flushTimer); watcher.close(); };
+    }, [container]);
+
+    const runTestsInContainer = (signal?: AbortSignal): Promise<TestRunResult> => withContainer(async wc => {
+        // The preview syncs files on React's schedule, which can lag behind changes an agent just made.
+        await writeContainerFiles(wc, flattenFiles(filesRef.current));
+        await wc.fs.rm(TEST_RESULTS_PATH, { force: true }).catch(() => {});
+        const { exitCode, output } = await runContainerCommand(wc, TEST_COMMAND, 'vitest', TEST_TIMEOUT_MS, signal);
+        const report = await wc.fs.readFile(TEST_RESULTS_PATH, 'utf-8').catch(() => null);
+        return buildTestRunResult(TEST_COMMAND.join(' '), exitCode, output, report, wc.workdir);
+    });
+
+    // Checks the workspace as it would be with `changes` applied, then puts the container back: the changes
+    // may still be retried or rejected in review, and the preview should only ever show applied work.
+    const verifyChanges = (changes: PendingChange[], mode: Exclude<VerificationMode, 'off'>): Promise<VerificationResult> => withContainer(async wc => {
+        const workspace = flattenFiles(filesRef.current);
+        const overlay = { ...workspace, ...Object.fromEntries(changes.map(change => [change.filePath, change.content])) };
+        await writeContainerFiles(wc, overlay);
+        try {
+            // Packages the task adds must be installed to type-check against them. They stay in node_modules if the
+            // task is rejected; the next install prunes them.
+            if (dependencySignature(overlay['/package.json']) !== dependencySignature(workspace['/package.json'])) {
+                await runContainerCommand(wc, INSTALL_COMMAND, 'npm', INSTALL_TIMEOUT_MS);
+            }
+            const { exitCode, output } = await runContainerCommand(wc, VERIFICATION_COMMANDS[mode], 'verify', VERIFICATION_TIMEOUT_MS);
+            return buildVerificationResult(mode, exitCode, output, changes.map(change => change.filePath));
+        } finally {
+            // Tasks can be applied while the check runs, so put back the workspace as it is now, not as it was.
+            const current = flattenFiles(filesRef.current);
+            await writeContainerFiles(wc, current);
+            for (const change of changes) {
+                if (change.filePath in current) continue;
+                delete containerContentRef.current[change.filePath];
+                await wc.fs.rm(change.filePath, { force: true }).catch(() => {});
+            }
+        }
+    });
+
+    const executeTask = async (task: AgentTask, signal: AbortSignal): Promise<TaskExecutionResult> => {
+        const result = await runAgentTask(task, signal);
+        if (signal.aborted) return result; // The orchestrator fails it; don't spend time verifying
+        if (verificationMode === 'off' || result.changes.length === 0) return result;
+
+        const label = VERIFICATION_MODE_LABELS[verificationMode];
+        addCommLog(task.agent, `Running ${label.toLowerCase()} on my changes...`);
+        const verification = await verifyChanges(result.changes, verificationMode);
+        if (!verification.passed) {
+            addCommLog(task.agent, `${label} failed${verification.errors.length > 0 ? ` with ${verification.errors.length} error(s)` : ''}.`);
+            throw new TaskError(describeVerificationFailure(verification), { verification }, result.output);
+        }
+        addCommLog(task.agent, `${label} passed.`);
+        return { ...result, patch: { ...result.patch, verification } };
+    };
+
+    // One fix-up task per agent whose code has failing tests, plus a re-test that waits for all of them.
+    const buildTestFixTasks = (qaTask: AgentTask, testRun: TestRunResult, round: number): PlannedTask[] => {
+        const tasks = orchestrator.getTasks();
+        const dependencyTasks = tasks.filter(t => (qaTask.dependencies || []).includes(t.id) && !getAgentDefinition(t.agent)?.runsTests);
+
+        const byAgent = new Map<string, { files: Set<string>; failures: TestFailure[] }>();
+        testRun.failures.forEach(failure => {
+            let sources = sourceCandidatesForTest(failure.file).filter(path => findFileNode(path, filesRef.current));
+            if (sources.length === 0) sources = dependencyTasks.flatMap(getTaskFilePaths).filter(path => !isTestFile(path));
+            const agent = sources.map(path => findLastAuthor(tasks, path)).find(Boolean) || dependencyTasks[0]?.agent || suggestAgentForTask({ filePath: sources[0] || '/src/App.tsx' });
+            if (!byAgent.has(agent)) byAgent.set(agent, { files: new Set(), failures: [] });
+            const group = byAgent.get(agent)!;
+            sources.forEach(path => group.files.add(path));
+            group.failures.push(failure);
+        });
+
+        const baseId = qaTask.id.replace(/\.(fix|retest)-\d+.*$/, '');
+        const fixTasks: PlannedTask[] = [...byAgent.entries()].map(([agent, group], index) => {
+            const files = group.files.size > 0 ? [...group.files] : ['/src/App.tsx'];
+            return {
+                id: `${baseId}.fix-${round}.${index + 1}`,
+                agent,
+                filePath: files[0],
+                files: files.slice(1),
+                dependencies: [],
+                fixRound: round,
+                description: `Fix the code so these failing tests pass, without changing the tests:\n${group.failures.map(f => `- ${f.name} (${f.file}): ${f.message.split('\n').slice(0, 3).join(' ').trim()}`).join('\n')}`,
+            };
+        });
+        const retest: PlannedTask = {
+            id: `${baseId}.retest-${round}`,
+            agent: qaTask.agent,
+            filePath: qaTask.filePath,
+            files: qaTask.files,
+            dependencies: fixTasks.map(t => t.id),
+            fixRound: round,
+            runOnly: true,
+            description: `Re-run the tests after fix round ${round}.`,
+        };
+        return [...fixTasks, retest];
+    };
+
+    const runTaskChecks = async (task: AgentTask, signal?: AbortSignal): Promise<TaskCheckOutcome | void> => {
+        if (!getAgentDefinition(task.agent)?.runsTests) return;
+        addCommLog(task.agent, 'Running the test suite...');
+        const testRun = await runTestsInContainer(signal);
+        if (signal?.aborted) return; // The orchestrator fails or requeues the task; a killed run says nothing about the code
+        addCommLog(task.agent, `Tests: ${summarizeTestRun(testRun)}.`);
+        if (testRunPassed(testRun)) return { patch: { testRun } };
+        // Without individual failures (vitest crashed, wrote no report or found no tests) there is nobody to send fixes to.
+        if (testRun.failures.length === 0) return { patch: { testRun }, error: `The test run did not pass: ${summarizeTestRun(testRun)}. See the terminal for its output.` };
+
+        const round = (task.fixRound || 0) + 1;
+        if (round > MAX_TEST_FIX_ROUNDS) {
+            const remaining = testRun.failures.map(failure => `${failure.name} (${failure.file})`);
+            addCommLog(task.agent, `Tests are still failing after ${MAX_TEST_FIX_ROUNDS} round(s) of fixes; leaving them for you:\n${remaining.map(name => `- ${name}`).join('\n')}`);
+            return { patch: { testRun }, error: `${remaining.length} test(s) still failing after ${MAX_TEST_FIX_ROUNDS} round(s) of fixes: ${remaining.join(', ')}` };
+        }
+        const followUps = buildTestFixTasks(task, testRun, round);
+        addCommLog(task.agent, `Sending ${followUps.length - 1} fix-up task(s) back to ${[...new Set(followUps.slice(0, -1).map(t => t.agent))].join(', ')}.`);
+        return { patch: { testRun }, followUps };
+    };
+
+    useEffect(() => {
+        orchestrator.configure({ executeTask, applyChanges: (_task, changes) => applyTaskChanges(changes), runChecks: runTaskChecks, requireReview });
+    });
+
+    useEffect(() => {
+        if (!resumeRequested) return;
+        setResumeRequested(false);
+        orchestrator.start();
+    }, [resumeRequested, orchestrator]);
+
+    // Mirror orchestrator events into the UI
+    useEffect(() => {
+        const unsubscribers = [
+            orchestrator.on('stateChanged', ({ agents }) => {
+                setAgents(agents);
+                const tasks = agents.flatMap(a => a.tasks);
+                if (orchestrator.isRunning && !tasks.some(t => t.state === 'Executing') && tasks.some(t => t.state === 'AwaitingReview')) setAiStatus('Awaiting review');
+            }),
+            orchestrator.on('taskStarted', ({ task }) => {
+                setAiStatus(`Executing: ${task.description}`);
+                addCommLog(task.agent, `Starting task: "${task.description}" (Attempt ${task.retries + 1})`);
+            }),
+            orchestrator.on('taskAwaitingReview', ({ task }) => {
+                addCommLog(task.agent, `Task "${task.description}" is ready. Waiting for review of ${(task.pendingChanges || []).map(c => c.filePath).join(', ')}.`);
+            }),
+            orchestrator.on('taskCompleted', ({ task }) => {
+                addCommLog(task.agent, `Task "${task.description}" completed successfully.`);
+            }),
+            orchestrator.on('taskFailed', ({ task, error, willRetry }) => {
+                addLog('Agent', `Task "${task.description}" failed: ${error}`);
+                addCommLog(task.agent, willRetry ? `Retrying task "${task.description}".` : `Task "${task.description}" failed${task.retries > 0 ? ' after max retries' : ''}: ${error}`);
+            }),
+            orchestrator.on('runStateChanged', ({ paused }) => {
+                setIsPaused(paused);
+                if (!paused) return;
+                setAiStatus('Paused');
+                setIsThinking(false);
+            }),
+            orchestrator.on('planFinished', ({ succeeded, stopped }) => {
+                addCommLog('Orchestrator', stopped ? 'The plan was stopped.' : succeeded ? 'All tasks completed successfully!' : 'Finished with errors.');
                 setAiStatus('Idle');
                 setIsThinking(false);
-                setAgents(currentAgents => currentAgents.map(a => ({ ...a, status: 'Idle' })));
+            }),
+        ];
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }, [orchestrator, addLog, addCommLog]);
+
+    const handleApproveTask = async (taskId: string) => {
+        const task = orchestrator.getTask(taskId);
+        if (!task || task.state !== 'AwaitingReview') return;
+        addLog('Review', `Approved task ${taskId}; applying ${(task.pendingChanges || []).map(c => c.filePath).join(', ')}.`);
+        await orchestrator.approveTask(taskId);
+    };
+
+    const handleRejectTask = (taskId: string) => {
+        const task = orchestrator.getTask(taskId);
+        if (!task || task.state !== 'AwaitingReview') return;
+        addLog('Review', `Rejected task ${taskId}; its changes were discarded.`);
+        orchestrator.rejectTask(taskId);
+    };
+
+    const handleRunDraftPlan = () => {
+        if (!draftPlan) return;
+        // Hand edits can reintroduce the problems the planner's output was checked for.
+        const validation = validatePlan(draftPlan, agentNames, suggestAgentForTask, [], allowsFile);
+        setPlanIssues(validation.issues);
+        if (validation.tasks.length === 0) {
+            addCommLog('Orchestrator', 'The edited plan has no runnable tasks left. Fix the issues listed above the plan, or discard it.');
+            return;
+        }
+        setDraftPlan(null);
+        setLastTurnTaskIds(validation.tasks.map(task => task.id));
+        addCommLog('Orchestrator', `Running the reviewed plan with ${validation.tasks.length} task(s).`);
+        setIsThinking(true);
+        setAiStatus('Executing plan');
+        orchestrator.loadPlan(validation.tasks);
+        orchestrator.start();
+    };
+
+    const handleDiscardDraftPlan = () => {
+        setDraftPlan(null);
+        setPlanIssues([]);
+        setAiStatus('Idle');
+        addCommLog('Orchestrator', 'The plan was discarded.');
+    };
+
+    // Records a prompt's tasks in the current run, starting one if this session has none yet.
+    const addRunTurn = (turn: RunTurn) => {
+        setRuns(prev => prev.length === 0
+            ? [{ id: generateRunId(), startedAt: Date.now(), turns: [turn], tasks: [] }]
+            : prev.map((run, index) => index === prev.length - 1 ? { ...run, turns: [...run.turns, turn] } : run));
+    };
+
+    const setLastTurnTaskIds = (taskIds: string[]) => {
+        setRuns(prev => prev.map((run, index) => index === prev.length - 1
+            ? { ...run, turns: run.turns.map((turn, turnIndex) => turnIndex === run.turns.length - 1 ? { ...turn, taskIds } : turn) }
+            : run));
+    };
+
+    // Asks the Orchestrator for a plan and validates it, giving it one chance to correct its own mistakes.
+    const requestPlan = async (prompt: string, signal: AbortSignal, context: { history?: string; existingTasks?: AgentTask[] } = {}) => {
+        const fileTreeString = serializeFileTree(filesRef.current);
+        const existingTaskIds = (context.existingTasks || []).map(task => task.id);
+        let validation = validatePlan(await generateExecutionPlan(prompt, fileTreeString, { ...context, signal }), agentNames, suggestAgentForTask, existingTaskIds, allowsFile);
+        if (validation.issues.length > 0) {
+            addCommLog('Orchestrator', `My plan has ${validation.issues.length} problem(s); asking for a corrected plan.`);
+            try {
+                validation = validatePlan(await generateExecutionPlan(prompt, fileTreeString, { ...context, corrections: validation.issues, signal }), agentNames, suggestAgentForTask, existingTaskIds, allowsFile);
+            } catch (error) {
+                if (signal.aborted) throw error;
+                // validatePlan already repaired the first attempt, so fall back to that.
+                addLog('System', `Plan correction failed, using the repaired original plan: ${error instanceof Error ? error.message : String(error)}`);
+            }
+            if (validation.issues.length > 0) {
+                addCommLog('Orchestrator', `I repaired ${validation.issues.length} remaining problem(s) in the plan automatically.`);
             }
         }
-    }, [agents, isThinking, allTasks, executeTask, addCommLog]);
+        return validation;
+    };
+
+    // Archives the current run and drafts a new plan, with earlier runs as context.
+    const planNewRun = async (prompt: string, signal: AbortSignal) => {
+        const archived = runs.map((run, index) => index === runs.length - 1 ? { ...run, tasks: orchestrator.getTasks() } : run);
+        setRuns([...archived, { id: generateRunId(), startedAt: Date.now(), turns: [{ prompt, time: new Date().toLocaleTimeString(), taskIds: [] }], tasks: [] }]);
+        setOriginalPrompt(prompt);
+        orchestrator.reset();
+        setPlanIssues([]);
+        setDraftPlan(null);
+
+        const validation = await requestPlan(prompt, signal, { history: describeRunHistory(archived) });
+        setPlanIssues(validation.issues);
+        setDraftPlan(validation.tasks);
+        addCommLog('Orchestrator', `I have created an execution plan with ${validation.tasks.length} task(s). Review it and press Run to start.`);
+        setIsThinking(false);
+        setAiStatus('Awaiting plan review');
+    };
+
+    // Adds the tasks a follow-up needs to the current plan, which keeps running (or restarts if it had finished).
+    const planFollowUp = async (prompt: string, signal: AbortSignal) => {
+        const validation = await requestPlan(prompt, signal, { existingTasks: orchestrator.getTasks() });
+        if (validation.tasks.length === 0) throw new Error('The follow-up did not produce any new tasks.');
+        addRunTurn({ prompt, time: new Date().toLocaleTimeString(), taskIds: validation.tasks.map(task => task.id) });
+        setOriginalPrompt(prev => prev ? `${prev} (follow-up: ${prompt})` : prompt);
+        setPlanIssues(prev => [...prev, ...validation.issues]);
+        orchestrator.addTasks(validation.tasks);
+        addCommLog('Orchestrator', `Added ${validation.tasks.length} task(s) to the plan for the follow-up.`);
+        if (orchestrator.isPaused) {
+            setIsThinking(false);
+            setAiStatus('Paused');
+            return;
+        }
+        setAiStatus('Executing plan');
+        orchestrator.start();
+    };
+
+    // A message addressed to one agent from the Communications panel. The agent replies in the message's thread and
+    // may turn it into a new task, or an amendment to one of its tasks that hasn't finished.
+    const handleSendDirectMessage = async (agentName: string, message: string) => {
+        const threadId = `dm-${Date.now().toString(36)}`;
+        addCommLog('User', message, { recipient: agentName, threadId });
+        setPendingReplyThreads(prev => [...prev, threadId]);
+        try {
+            const tasks = orchestrator.getTasks().filter(task => task.agent === agentName);
+            const decision = await generateDirectMessageReply(agentName, message, tasks);
+            // The plan may have been replanned, discarded or changed while the agent was replying.
+            if (decision.action !== 'none' && (isPlanningRef.current || draftPlanRef.current)) {
+                addCommLog(agentName, `${decision.reply}\n\nI'll hold off until the new plan is running; send this again then.`, { threadId });
+                return;
+            }
+            const currentTasks = orchestrator.getTasks().filter(task => task.agent === agentName);
+            const description = decision.description?.trim() || message;
+            if (decision.action === 'amend' && decision.taskId && currentTasks.some(task => task.id === decision.taskId) && orchestrator.amendTask(decision.taskId, description)) {
+                addLog('Agent', `${agentName} amended task ${decision.taskId} after a direct message.`);
+                addCommLog(agentName, `${decision.reply}\n\nUpdated task ${decision.taskId}: ${description}`, { threadId });
+                return;
+            }
+            if (decision.action === 'none') {
+                addCommLog(agentName, decision.reply, { threadId });
+                return;
+            }
+            // A new task, or an amendment to a task that has already finished.
+            const filePath = decision.filePath || currentTasks[currentTasks.length - 1]?.filePath || '/src/App.tsx';
+            const task: PlannedTask = { id: `msg-${Date.now().toString(36)}`, agent: agentName, description, filePath, files: decision.files || [], dependencies: [] };
+            // Wait for the agent's unfinished work on the same files, so the two don't overwrite each other.
+            const paths = getTaskFilePaths(task);
+            task.dependencies = currentTasks
+                .filter(existing => !['Completed', 'Failed'].includes(existing.state) && getTaskFilePaths(existing).some(path => paths.includes(path)))
+                .map(existing => existing.id);
+            orchestrator.addTasks([task]);
+            addRunTurn({ prompt: `@${agentName} ${message}`, time: new Date().toLocaleTimeString(), taskIds: [task.id] });
+            addCommLog(agentName, `${decision.reply}\n\nAdded task ${task.id}: ${description}`, { threadId });
+            if (!orchestrator.isRunning && !orchestrator.isPaused) {
+                setIsThinking(true);
+                setAiStatus('Executing plan');
+                orchestrator.start();
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            addLog('System', `Direct message to ${agentName} failed: ${errorMessage}`);
+            addCommLog(agentName, `I couldn't act on that message. Error: ${errorMessage}`, { threadId });
+        } finally {
+            setPendingReplyThreads(prev => prev.filter(id => id !== threadId));
+        }
+    };
 
     const handleUserInputSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!userInput.trim() || isThinking) return;
+        if (!userInput.trim() || isPlanning) return;
+        const followUp = hasPlan && followUpMode === 'append';
+        if (!followUp && (isThinking || isPaused) && !window.confirm('Start a new plan? The current plan will be stopped.')) return;
     
         const prompt = userInput;
-        setOriginalPrompt(prompt);
         addCommLog('User', prompt);
         setUserInput('');
         setIsThinking(true);
-        setAiStatus('Planning...');
-        setAgents(initialAgents);
-        setCommLogs([{ id: 0, agent: 'User', message: prompt, time: new Date().toLocaleTimeString() }]);
+        setIsPlanning(true);
+        setAiStatus(followUp ? 'Planning follow-up...' : 'Planning...');
         setActiveMainTab('plan');
+        const controller = new AbortController();
+        planAbortRef.current = controller;
     
         try {
-            const fileTreeString = serializeFileTree(files);
-            const plan = await generateExecutionPlan(prompt, fileTreeString);
-            
-            addCommLog('Orchestrator', `I have created an execution plan with ${plan.length} task(s).`);
-
-            const agentsWithTasks = initialAgents.map(agent => ({
-                ...agent,
-                tasks: plan
-                    .filter(task => task.agent === agent.name)
-                    .map((task): AgentTask => ({ ...task, state: (task.dependencies && task.dependencies.length > 0) ? 'Blocked' : 'Queued', retries: 0 }))
-            }));
-            
-            setAgents(agentsWithTasks);
-            setAiStatus('Ready to Execute');
+            if (followUp) await planFollowUp(prompt, controller.signal);
+            else await planNewRun(prompt, controller.signal);
         } catch (error) {
+            // A follow-up that fails leaves the plan it was meant for as it was.
+            const restingStatus = orchestrator.isRunning ? 'Executing plan' : orchestrator.isPaused ? 'Paused' : 'Idle';
+            setIsThinking(orchestrator.isRunning);
+            if (controller.signal.aborted) {
+                addCommLog('Orchestrator', 'Planning was stopped.');
+                setAiStatus(restingStatus);
+                return;
+            }
             const errorMessage = error instanceof Error ? error.message : String(error);
             addLog('System', `Error during planning: ${errorMessage}`);
             addCommLog('Orchestrator', `I failed to create a plan. Error: ${errorMessage}`);
-            setIsThinking(false);
-            setAiStatus('Error');
+            setAiStatus(followUp ? restingStatus : 'Error');
+        } finally {
+            setIsPlanning(false);
+            if (planAbortRef.current === controller) planAbortRef.current = null;
         }
     };
 
-
     return (
         <div className="h-screen w-screen bg-gray-900 text-white flex flex-col font-sans overflow-hidden">
             <GlobalStyles />
-            <Header />
+            <Header
+                sessions={sessions}
+                sessionId={sessionId}
+                sessionName={sessionName}
+                lastSavedAt={lastSavedAt}
+                onSwitchSession={handleSwitchSession}
+                onNewSession={handleNewSession}
+                onRenameSession={setSessionName}
+                onDeleteSession={handleDeleteSession}
+            />
             <div className="flex flex-1 min-h-0">
                 <ActivityBar activeView={activeView} setActiveView={setActiveView} onToggleAgentPanel={() => setAgentPanelOpen(!agentPanelOpen)} isAgentPanelOpen={agentPanelOpen} />
-                <Sidebar activeView={activeView} files={files} activeFile={activeFile} onSelectFile={handleSelectFile} modifiedFiles={modifiedFiles} />
+                <Sidebar
+                    activeView={activeView} files={files} activeFile={activeFile} onSelectFile={handleSelectFile} modifiedFiles={modifiedFiles} deletedFiles={deletedFiles}
+                    commits={commits} headCommitId={headCommitId} onCommit={handleCommit} onCheckout={handleCheckoutCommit} onRevert={handleRevertToCommit}
+                    unstagedFiles={unstagedPaths} stagedFiles={stagedPaths} onOpenDiff={handleOpenDiff} onStageFile={handleStageFile} onUnstageFile={handleUnstageFile}
+                    packageJson={findFileNode('/package.json', files)?.content} isInstallingDependencies={isInstallingDependencies} onDependencyChanges={handleDependencyChanges}
+                    agentDefinitions={agentDefinitions} onSaveAgentDefinitions={handleSaveAgentDefinitions}
+                    agentNames={agentNames} providerSettings={effectiveProviderSettings} onChangeProvider={handleChangeProvider} onApplyProviderToAll={handleApplyProviderToAll}
+                    rememberApiKeys={rememberApiKeys} onToggleRememberApiKeys={() => setRememberApiKeys(prev => !prev)}
+                    isRecording={isRecording} recordedCount={recordedCount} onToggleRecording={() => setIsRecording(prev => !prev)}
+                    onDownloadRecording={handleDownloadRecording} onReplayRecording={handleReplayRecording} onClearRecording={() => recorderRef.current.clear()}
+                />
                 <div className="flex-1 flex flex-col min-w-0">
                     <div className="flex-1 flex min-h-0">
                         <MainView 
@@ -1890,19 +4273,53 @@ IMPORTANT: Respond ONLY with the raw, full file content. Do not include any expl
                             onSelectFile={handleSelectFile}
                             onCloseFile={handleCloseFile}
                             onSave={handleSaveFile}
-                            addLog={addLog}
                             allTasks={allTasks}
                             onRetryTask={handleRetryTask}
+                            onAbortTask={handleAbortTask}
+                            onCancelTask={handleCancelTask}
+                            isPlanRunning={isThinking && hasPlan}
+                            isPlanPaused={isPaused}
+                            onPausePlan={handlePausePlan}
+                            onResumePlan={handleResumePlan}
+                            onStopPlan={handleStopPlan}
+                            runs={runs}
+                            liveOutput={(activeFile && (Object.values(liveOutputs) as LiveOutput[]).find(output => output.filePaths.includes(activeFile))) || null}
+                            requireReview={requireReview}
+                            onToggleReview={() => setRequireReview(prev => !prev)}
+                            onApproveTask={handleApproveTask}
+                            onRejectTask={handleRejectTask}
+                            planIssues={planIssues}
+                            draftPlan={draftPlan}
+                            agentNames={assignableAgentNames}
+                            onChangeDraft={setDraftPlan}
+                            onRunDraft={handleRunDraftPlan}
+                            onDiscardDraft={handleDiscardDraftPlan}
+                            containerState={containerState}
+                            onStartContainer={() => containerService.start()}
+                            onRestartContainer={() => containerService.restart()}
+                            onStopContainer={() => containerService.stop()}
+                            onPreviewMessage={handlePreviewMessage}
+                            verificationMode={verificationMode}
+                            onChangeVerificationMode={setVerificationMode}
                             codeToInsert={codeToInsert}
                             onInsertionComplete={handleInsertionComplete}
+                            diff={diff}
+                            onStageDiff={handleStageDiff}
+                            onDiscardDiff={handleDiscardDiff}
+                            onCloseDiff={() => setDiffPath(null)}
                         />
                     </div>
-                    <TerminalPanel logs={terminalLogs} height={bottomPanelHeight} onResize={handleBottomPanelResize} />
+                    <TerminalPanel logs={terminalLogs} height={bottomPanelHeight} onResize={handleBottomPanelResize} onFixError={handleFixPreviewError} container={container} />
                 </div>
                 <AgentPanel 
                     isOpen={agentPanelOpen} 
                     agents={agents} 
+                    agentDefinitions={agentDefinitions}
                     commLogs={commLogs} 
+                    liveOutputs={liveOutputs}
+                    onAbortTask={handleAbortTask}
+                    onSendMessage={handleSendDirectMessage}
+                    pendingReplyThreads={pendingReplyThreads}
                     onGenerateCode={generateCodeSnippet}
                     onInsertCode={handleInsertCodeIntoEditor}
                     activeFile={activeFile}
@@ -1913,7 +4330,13 @@ IMPORTANT: Respond ONLY with the raw, full file content. Do not include any expl
                 inputValue={userInput}
                 onInputChange={(e) => setUserInput(e.target.value)}
                 isThinking={isThinking}
+                isPlanning={isPlanning}
+                isPaused={isPaused}
                 aiStatus={aiStatus}
+                onStop={handleStopPlan}
+                hasPlan={hasPlan}
+                followUpMode={followUpMode}
+                onChangeFollowUpMode={setFollowUpMode}
             />
         </div>
     );
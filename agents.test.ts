@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { AgentDefinition, DEFAULT_AGENT_DEFINITIONS, PLANNER_AGENT_NAME, canEditFile, matchesGlob, suggestAgentForFiles, validateAgentDefinitions } from './agents';
+
+const agent = (name: string, fileGlobs: string[] = [], overrides: Partial<AgentDefinition> = {}): AgentDefinition =>
+    ({ name, role: `Does ${name} work.`, systemPrompt: '', fileGlobs, color: '#ffffff', concurrency: 1, ...overrides });
+
+const planner = agent(PLANNER_AGENT_NAME);
+
+// --- GLOBS ---
+describe('matchesGlob', () => {
+    it('lets "**/" span zero or more folders', () => {
+        expect(matchesGlob('/styles.css', '**/*.css')).toBe(true);
+        expect(matchesGlob('/src/components/Button.css', '**/*.css')).toBe(true);
+        expect(matchesGlob('/server/index.ts', '/server/**')).toBe(true);
+        expect(matchesGlob('/server/api/routes/users.ts', '/server/**')).toBe(true);
+        expect(matchesGlob('/src/__tests__/a.ts', '**/__tests__/**')).toBe(true);
+    });
+
+    it('keeps "*" and "?" within one folder', () => {
+        expect(matchesGlob('/src/App.tsx', '/src/*.tsx')).toBe(true);
+        expect(matchesGlob('/src/components/App.tsx', '/src/*.tsx')).toBe(false);
+        expect(matchesGlob('/src/a.ts', '/src/?.ts')).toBe(true);
+        expect(matchesGlob('/src/ab.ts', '/src/?.ts')).toBe(false);
+        expect(matchesGlob('/src/a/b.ts', '/src?a/b.ts')).toBe(false);
+    });
+
+    it('treats dots and other regex characters literally', () => {
+        expect(matchesGlob('/src/acss', '**/*.css')).toBe(false);
+        expect(matchesGlob('/src/a.css', '**/*.css')).toBe(true);
+        expect(matchesGlob('/src/a+b.ts', '/src/a+b.ts')).toBe(true);
+        expect(matchesGlob('/src/aab.ts', '/src/a+b.ts')).toBe(false);
+        expect(matchesGlob('/src/(x).ts', '/src/(x).ts')).toBe(true);
+    });
+
+    it('anchors the glob to the whole path', () => {
+        expect(matchesGlob('/src/server/index.ts', '/server/**')).toBe(false);
+        expect(matchesGlob('/src/App.tsx.bak', '**/*.tsx')).toBe(false);
+        expect(matchesGlob('/src/App.tsx', 'App.tsx')).toBe(false);
+    });
+
+    it('picks one of the alternatives in braces', () => {
+        expect(matchesGlob('/src/App.tsx', '**/*.{ts,tsx}')).toBe(true);
+        expect(matchesGlob('/src/App.ts', '**/*.{ts,tsx}')).toBe(true);
+        expect(matchesGlob('/src/App.js', '**/*.{ts,tsx}')).toBe(false);
+        expect(matchesGlob('/src/App.test.tsx', '**/*.{test,spec}.{ts,tsx}')).toBe(true);
+    });
+});
+
+describe('canEditFile', () => {
+    it('lets an agent without globs edit any file', () => {
+        expect(canEditFile(agent('Generalist'), '/anything/at/all.txt')).toBe(true);
+    });
+
+    it('excludes files matching a "!" glob', () => {
+        const developer = agent('Developer', ['**/*.{ts,tsx}', '!**/*.test.{ts,tsx}']);
+        expect(canEditFile(developer, '/src/App.tsx')).toBe(true);
+        expect(canEditFile(developer, '/src/App.test.tsx')).toBe(false);
+        expect(canEditFile(developer, '/src/index.css')).toBe(false);
+    });
+
+    it('treats an agent with only exclusions as allowed everything else', () => {
+        const developer = agent('Developer', ['!/server/**']);
+        expect(canEditFile(developer, '/src/App.tsx')).toBe(true);
+        expect(canEditFile(developer, '/server/index.ts')).toBe(false);
+    });
+});
+
+describe('suggestAgentForFiles', () => {
+    it('prefers the first agent that can edit every file, never the planner', () => {
+        expect(suggestAgentForFiles(DEFAULT_AGENT_DEFINITIONS, ['/src/App.tsx'])).toBe('Frontend-Dev');
+        expect(suggestAgentForFiles(DEFAULT_AGENT_DEFINITIONS, ['/src/App.test.tsx'])).toBe('QA-Tester');
+        expect(suggestAgentForFiles(DEFAULT_AGENT_DEFINITIONS, ['/src/index.css', '/src/App.tsx'])).toBe('UX-Designer');
+    });
+
+    it('falls back to the agent for the first file, then the first agent', () => {
+        expect(suggestAgentForFiles(DEFAULT_AGENT_DEFINITIONS, ['/server/schema.sql', '/src/index.css'])).toBe('Backend-Dev');
+        expect(suggestAgentForFiles([planner, agent('Writer', ['**/*.md'])], ['/src/App.tsx'])).toBe('Writer');
+        expect(suggestAgentForFiles([planner], ['/src/App.tsx'])).toBe(PLANNER_AGENT_NAME);
+    });
+});
+
+// --- VALIDATION ---
+describe('validateAgentDefinitions', () => {
+    it('accepts the default registry', () => {
+        expect(validateAgentDefinitions(DEFAULT_AGENT_DEFINITIONS)).toEqual([]);
+    });
+
+    it('rejects names that differ only in case', () => {
+        expect(validateAgentDefinitions([planner, agent('Writer'), agent('writer')])).toEqual(['writer: another agent has the same name.']);
+        expect(validateAgentDefinitions([planner, agent('orchestrator')])).toEqual(['orchestrator: another agent has the same name.']);
+    });
+
+    it('rejects names that could not be @mentioned', () => {
+        expect(validateAgentDefinitions([planner, agent('Tech Writer')])).toEqual(['Tech Writer: the name may only contain letters, digits, "-" and "_".']);
+        expect(validateAgentDefinitions([planner, agent('')])).toEqual(['Agent 2: the name may only contain letters, digits, "-" and "_".']);
+    });
+
+    it('rejects an empty role and a concurrency below one or not whole', () => {
+        expect(validateAgentDefinitions([planner, agent('Writer', [], { role: '  ' })])).toEqual(['Writer: describe its role, so the planner knows what to give it.']);
+        [0, -1, 1.5, NaN].forEach(concurrency => {
+            expect(validateAgentDefinitions([planner, agent('Writer', [], { concurrency })])).toEqual(['Writer: concurrency must be a whole number of at least 1.']);
+        });
+    });
+
+    it('requires the planner and at least one other agent', () => {
+        expect(validateAgentDefinitions([agent('Writer')])).toEqual([`The ${PLANNER_AGENT_NAME} can't be removed.`]);
+        expect(validateAgentDefinitions([planner])).toEqual(['Add at least one agent besides the planner.']);
+        expect(validateAgentDefinitions([])).toEqual([`The ${PLANNER_AGENT_NAME} can't be removed.`, 'Add at least one agent besides the planner.']);
+    });
+});
@@ -0,0 +1,138 @@
+// --- TYPES ---
+// One entry in the agent registry. The planner assigns tasks from `role` and `fileGlobs`; the executor sends
+// `systemPrompt` with every request the agent makes.
+export interface AgentDefinition {
+    name: string; // Letters, digits, "-" and "_", so it can be @mentioned
+    role: string;
+    systemPrompt: string;
+    model?: string; // Used when the agent has no provider settings of its own
+    // Files the agent may be assigned. Globs match the workspace path ("**/*.css", "/server/**"); a leading "!"
+    // excludes. No positive globs means any file.
+    fileGlobs: string[];
+    color: string; // Hex, for the agent's name in the UI
+    concurrency: number; // Tasks it may execute at once
+    runsTests?: boolean; // The test suite runs after each of its tasks, and failures go back to the code's authors
+    generatesImages?: boolean; // Logo and placeholder tasks produce images instead of edits
+}
+
+// --- CONFIG ---
+// The planner. It is always in the registry and is never assigned tasks; its name, which the UI uses for its own
+// messages, can't be changed.
+export const PLANNER_AGENT_NAME = 'Orchestrator';
+export const USER_COLOR = '#5eead4';
+export const DEFAULT_AGENT_COLOR = '#d1d5db';
+const AGENT_NAME = /^[\w-]+$/;
+
+export const DEFAULT_AGENT_DEFINITIONS: AgentDefinition[] = [
+    {
+        name: PLANNER_AGENT_NAME,
+        role: 'Manages the overall process. Not assigned to coding tasks.',
+        systemPrompt: '',
+        fileGlobs: [],
+        color: '#c084fc',
+        concurrency: 1,
+    },
+    {
+        name: 'Frontend-Dev',
+        role: '**Logic ONLY.** Responsible for component structure, state management (e.g., React hooks), event handlers (e.g., onClick), and data flow within `.tsx` and `.jsx` files. **This agent MUST NOT write any CSS or add/change `className` attributes.**',
+        systemPrompt: '',
+        fileGlobs: ['**/*.{ts,tsx,js,jsx,json,html,md}', '!**/*.{test,spec}.{ts,tsx,js,jsx}'],
+        color: '#60a5fa',
+        concurrency: 1,
+    },
+    {
+        name: 'Backend-Dev',
+        role: 'Specializes in server-side logic (if applicable).',
+        systemPrompt: '',
+        fileGlobs: ['/server/**', '/api/**'],
+        color: '#fb923c',
+        concurrency: 1,
+    },
+    {
+        name: 'QA-Tester',
+        role: 'Writes Vitest tests in `*.test.ts`/`*.test.tsx` files next to the code they test. The test suite runs automatically after each QA task, and failures are sent back to the agent that wrote the code, so QA tasks must depend on the tasks whose code they test.',
+        systemPrompt: `- Write tests with Vitest: \`import { describe, it, expect } from 'vitest';\`. No other testing libraries are installed; prefer testing exported functions and modules directly, and add a dev dependency only if you really need one.
+- Put tests in \`*.test.ts\` or \`*.test.tsx\` files next to the code they test.`,
+        fileGlobs: ['**/*.{test,spec}.{ts,tsx,js,jsx}', '**/__tests__/**'],
+        color: '#4ade80',
+        concurrency: 1,
+        runsTests: true,
+    },
+    {
+        name: 'UX-Designer',
+        role: `**Styling and Layout ONLY.** Exclusively responsible for all visual aspects: writing all CSS in \`.css\` files, adding or modifying \`className\` and \`style\` attributes in \`.tsx\` and \`.jsx\` files, implementing layouts and visual design, and generating logos or placeholder images. A request to "add a button that increments a counter" is split: Frontend-Dev adds the button and its \`onClick\` logic, then UX-Designer adds its \`className\` and styles.`,
+        systemPrompt: `- **CSS Variables ARE MANDATORY**: You MUST define and use CSS variables for all styling properties, including colors, spacing (padding, margin, gap), and font sizes.
+- **Define in \`:root\`**: All CSS variables must be defined within a \`:root\` selector in the relevant CSS file. If the selector doesn't exist, you must create it.
+- **Use Variables Everywhere**: After defining them, you MUST use the \`var()\` function to apply these variables throughout your CSS rules. Do not use any hardcoded values like \`#FFF\`, \`16px\`, or \`2rem\` directly in your styles.
+- **Maintainability**: Ensure the CSS is well-organized and reusable.`,
+        fileGlobs: ['**/*.{css,scss,less}', '**/*.{svg,png,jpg,jpeg,gif}', '**/*.{tsx,jsx,html}'],
+        color: '#f472b6',
+        concurrency: 1,
+        generatesImages: true,
+    },
+];
+
+// --- HELPERS ---
+// "**/" spans any number of folders, "*" and "?" stay within one, "{a,b}" picks an alternative.
+const globToRegExp = (glob: string): RegExp => {
+    let source = '';
+    let braceDepth = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            const folders = glob[i + 2] === '/';
+            source += folders ? '(?:.*/)?' : '.*';
+            i += folders ? 2 : 1;
+        } else if (char === '*') source += '[^/]*';
+        else if (char === '?') source += '[^/]';
+        else if (char === '{') { source += '(?:'; braceDepth++; }
+        else if (char === '}' && braceDepth > 0) { source += ')'; braceDepth--; }
+        else if (char === ',' && braceDepth > 0) source += '|';
+        else source += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+    }
+    return new RegExp(`^${source}$`);
+};
+
+export const matchesGlob = (path: string, glob: string): boolean => globToRegExp(glob).test(path);
+
+export const canEditFile = (definition: AgentDefinition, path: string): boolean => {
+    const include = definition.fileGlobs.filter(glob => !glob.startsWith('!'));
+    const exclude = definition.fileGlobs.filter(glob => glob.startsWith('!')).map(glob => glob.slice(1));
+    return (include.length === 0 || include.some(glob => matchesGlob(path, glob))) && !exclude.some(glob => matchesGlob(path, glob));
+};
+
+export const getAssignableAgents = (definitions: AgentDefinition[]): AgentDefinition[] =>
+    definitions.filter(definition => definition.name !== PLANNER_AGENT_NAME);
+
+// The first agent, in registry order, allowed to edit every one of the files; failing that, the first one allowed
+// to edit the first file; failing that, the first agent.
+export const suggestAgentForFiles = (definitions: AgentDefinition[], paths: string[]): string => {
+    const candidates = getAssignableAgents(definitions);
+    const match = candidates.find(definition => paths.every(path => canEditFile(definition, path)))
+        || candidates.find(definition => paths.length > 0 && canEditFile(definition, paths[0]))
+        || candidates[0];
+    return match?.name || PLANNER_AGENT_NAME;
+};
+
+// The roster as the planner sees it.
+export const describeAgentRoles = (definitions: AgentDefinition[]): string => definitions.map(definition => {
+    const globs = definition.fileGlobs.length > 0 ? ` Files: ${definition.fileGlobs.join(', ')}.` : '';
+    return `- ${definition.name}: ${definition.role}${definition.name === PLANNER_AGENT_NAME ? '' : globs}`;
+}).join('\n');
+
+// Problems that would stop the registry from working; an empty list means it can be saved.
+export const validateAgentDefinitions = (definitions: AgentDefinition[]): string[] => {
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    definitions.forEach((definition, index) => {
+        const label = definition.name || `Agent ${index + 1}`;
+        if (!AGENT_NAME.test(definition.name)) errors.push(`${label}: the name may only contain letters, digits, "-" and "_".`);
+        if (seen.has(definition.name.toLowerCase())) errors.push(`${label}: another agent has the same name.`);
+        seen.add(definition.name.toLowerCase());
+        if (!definition.role.trim()) errors.push(`${label}: describe its role, so the planner knows what to give it.`);
+        if (!Number.isInteger(definition.concurrency) || definition.concurrency < 1) errors.push(`${label}: concurrency must be a whole number of at least 1.`);
+    });
+    if (!definitions.some(definition => definition.name === PLANNER_AGENT_NAME)) errors.push(`The ${PLANNER_AGENT_NAME} can't be removed.`);
+    if (getAssignableAgents(definitions).length === 0) errors.push('Add at least one agent besides the planner.');
+    return errors;
+};
@@ -0,0 +1,157 @@
+import { WebContainer } from 'https://esm.sh/@webcontainer/api?module';
+
+// --- TYPES ---
+export type ContainerStatus = 'stopped' | 'booting' | 'installing' | 'starting' | 'running' | 'error';
+
+export interface ContainerState {
+    status: ContainerStatus;
+    url: string | null; // The dev server, once it is listening
+    error: string | null;
+    // Handed out once dependencies are installed, so agents can run commands while the dev server starts.
+    container: WebContainer | null;
+}
+
+export interface ContainerServiceEvents {
+    stateChanged: ContainerState;
+    output: { source: string; text: string };
+}
+
+export type ContainerServiceEvent = keyof ContainerServiceEvents;
+
+export interface ContainerServiceOptions {
+    // Path -> content of everything to mount on each (re)start.
+    getFiles: () => Record<string, string>;
+}
+
+// --- CONFIG ---
+export const CONTAINER_STATUS_LABELS: Record<ContainerStatus, string> = {
+    stopped: 'Stopped',
+    booting: 'Booting',
+    installing: 'Installing dependencies',
+    starting: 'Starting dev server',
+    running: 'Running',
+    error: 'Error',
+};
+
+// --- HELPERS ---
+const buildFileSystemTree = (flat: Record<string, string>) => {
+    const tree = {};
+    for (const [path, contents] of Object.entries(flat)) {
+        const segments = path.split('/').filter(Boolean);
+        let directory = tree;
+        segments.slice(0, -1).forEach(segment => {
+            if (!directory[segment]) directory[segment] = { directory: {} };
+            directory = directory[segment].directory;
+        });
+        directory[segments[segments.length - 1]] = { file: { contents } };
+    }
+    return tree;
+};
+
+// --- SERVICE ---
+// Owns the page's single WebContainer: mounting the workspace, `npm install` and the dev server. It outlives the
+// views that show it, so switching tabs never reboots the container; only start/stop/restart change its lifecycle.
+export class ContainerService {
+    private state: ContainerState = { status: 'stopped', url: null, error: null, container: null };
+    private instance: WebContainer | null = null;
+    private booting: Promise<WebContainer> | null = null;
+    // Bumped by stop() so a start still in flight gives up instead of publishing a stale container.
+    private generation = 0;
+    private listeners: { [K in ContainerServiceEvent]?: Set<(payload: ContainerServiceEvents[K]) => void> } = {};
+
+    constructor(private readonly options: ContainerServiceOptions) {}
+
+    on<K extends ContainerServiceEvent>(event: K, handler: (payload: ContainerServiceEvents[K]) => void): () => void {
+        const handlers: Set<(payload: ContainerServiceEvents[K]) => void> = this.listeners[event] ?? new Set();
+        this.listeners = { ...this.listeners, [event]: handlers };
+        handlers.add(handler);
+        return () => { handlers.delete(handler); };
+    }
+
+    getState(): ContainerState {
+        return this.state;
+    }
+
+    async start(): Promise<void> {
+        if (this.state.status !== 'stopped' && this.state.status !== 'error') return;
+        const generation = ++this.generation;
+        const isCurrent = () => generation === this.generation;
+        this.instance?.teardown();
+        this.instance = null;
+        this.setState({ status: 'booting', url: null, error: null, container: null });
+
+        // Only one container may exist per page, so wait for a superseded boot to finish and tear itself down.
+        if (this.booting) await this.booting.catch(() => {});
+        if (!isCurrent()) return;
+
+        this.log('Booting WebContainer...');
+        try {
+            // A superseded boot tears down inside the promise, so a start() waiting on it resumes only once it's gone.
+            const booting = WebContainer.boot().then(wc => { if (!isCurrent()) wc.teardown(); return wc; });
+            this.booting = booting;
+            const wc = await booting.finally(() => { if (this.booting === booting) this.booting = null; });
+            if (!isCurrent()) return;
+            this.instance = wc;
+
+            wc.on('server-ready', (_port, url) => {
+                if (!isCurrent()) return;
+                this.setState({ status: 'running', url });
+                this.log(`Server is ready at ${url}`);
+            });
+            wc.on('error', error => { if (isCurrent()) this.fail(`WebContainer error: ${error.message}`); });
+
+            await wc.mount(buildFileSystemTree(this.options.getFiles()));
+            if (!isCurrent()) return;
+
+            this.setState({ status: 'installing' });
+            this.log('Installing dependencies...');
+            const installProcess = await wc.spawn('npm', ['install']);
+            installProcess.output.pipeTo(new WritableStream({ write: data => { if (isCurrent()) this.emit('output', { source: 'npm', text: data }); } }));
+            const installExitCode = await installProcess.exit;
+            if (!isCurrent()) return;
+            if (installExitCode !== 0) {
+                this.fail(`npm install failed with exit code ${installExitCode}. See terminal for details.`);
+                return;
+            }
+
+            this.log('Dependencies installed. Starting dev server...');
+            this.setState({ status: 'starting', container: wc });
+            const devProcess = await wc.spawn('npm', ['run', 'dev']);
+            devProcess.output.pipeTo(new WritableStream({ write: data => { if (isCurrent()) this.emit('output', { source: 'vite', text: data }); } }));
+        } catch (error) {
+            if (isCurrent()) this.fail(`WebContainer boot failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    async stop(): Promise<void> {
+        if (this.state.status === 'stopped') return;
+        this.generation++;
+        this.instance?.teardown();
+        this.instance = null;
+        this.setState({ status: 'stopped', url: null, error: null, container: null });
+        this.log('WebContainer stopped.');
+    }
+
+    async restart(): Promise<void> {
+        await this.stop();
+        await this.start();
+    }
+
+    private fail(message: string) {
+        this.setState({ status: 'error', error: message, container: null });
+        this.log(message);
+    }
+
+    private log(text: string) {
+        this.emit('output', { source: 'Preview', text });
+    }
+
+    private setState(patch: Partial<ContainerState>) {
+        this.state = { ...this.state, ...patch };
+        this.emit('stateChanged', this.state);
+    }
+
+    private emit<K extends ContainerServiceEvent>(event: K, payload: ContainerServiceEvents[K]) {
+        this.listeners[event]?.forEach(handler => handler(payload));
+    }
+}
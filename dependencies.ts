@@ -0,0 +1,109 @@
+// --- TYPES ---
+export type DependencyAction = 'add' | 'remove' | 'upgrade';
+
+export interface DependencyChange {
+    action: DependencyAction;
+    name: string;
+    version?: string; // A semver range; resolved to the latest release when omitted for add/upgrade
+    dev?: boolean;
+}
+
+export interface DependencyEntry {
+    name: string;
+    version: string;
+    dev: boolean;
+}
+
+// --- CONFIG ---
+// Agents manage packages with directive lines next to their edit blocks instead of rewriting package.json:
+//
+//   DEPENDENCY: add zustand@^4.5.0
+//   DEPENDENCY: add -D @testing-library/react
+//   DEPENDENCY: upgrade react@^19.1.0
+//   DEPENDENCY: remove lodash
+const DIRECTIVE = /^DEPENDENCY:\s*(add|remove|upgrade)\s+(-D\s+|--save-dev\s+)?(\S+)\s*$/i;
+const PACKAGE_NAME = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+const NPM_REGISTRY_URL = 'https://registry.npmjs.org';
+// Incremental: npm only fetches what package.json adds and prunes what it no longer lists.
+export const INSTALL_COMMAND = ['npm', 'install', '--no-audit', '--no-fund'];
+export const INSTALL_TIMEOUT_MS = 5 * 60 * 1000;
+
+export const DEPENDENCY_INSTRUCTIONS = `To add, upgrade or remove npm packages, do not edit package.json. Add one line per package instead, before or after the edit blocks:
+DEPENDENCY: add <name>[@<version range>]      (use "add -D" for dev dependencies such as test utilities)
+DEPENDENCY: upgrade <name>[@<version range>]
+DEPENDENCY: remove <name>`;
+
+// --- HELPERS ---
+// "@scope/pkg@^1.2.0" -> { name: '@scope/pkg', version: '^1.2.0' }
+export const splitPackageSpec = (spec: string): { name: string; version?: string } => {
+    const at = spec.indexOf('@', spec.startsWith('@') ? 1 : 0);
+    if (at === -1) return { name: spec };
+    return { name: spec.slice(0, at), version: spec.slice(at + 1) || undefined };
+};
+
+export const parseDependencyDirectives = (text: string): DependencyChange[] => text
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map(line => line.trim().match(DIRECTIVE))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => ({ action: match[1].toLowerCase() as DependencyAction, ...splitPackageSpec(match[3]), ...(match[2] ? { dev: true } : {}) }));
+
+export const listDependencies = (packageJson: string): DependencyEntry[] => {
+    const pkg = JSON.parse(packageJson);
+    const entries = (section: Record<string, string> | undefined, dev: boolean) =>
+        Object.entries(section || {}).map(([name, version]) => ({ name, version, dev }));
+    return [...entries(pkg.dependencies, false), ...entries(pkg.devDependencies, true)];
+};
+
+// What `npm install` cares about; unchanged means no reinstall is needed. Null when package.json doesn't parse.
+export const dependencySignature = (packageJson: string | undefined): string | null => {
+    if (packageJson === undefined) return null;
+    try {
+        const pkg = JSON.parse(packageJson);
+        return JSON.stringify([pkg.dependencies || {}, pkg.devDependencies || {}]);
+    } catch {
+        return null;
+    }
+};
+
+// Falls back to "latest" when the registry can't be reached; npm resolves it at install time.
+export const resolveLatestVersion = async (name: string): Promise<string> => {
+    try {
+        const response = await fetch(`${NPM_REGISTRY_URL}/${name.replace('/', '%2F')}/latest`);
+        if (!response.ok) return 'latest';
+        const { version } = await response.json();
+        return version ? `^${version}` : 'latest';
+    } catch {
+        return 'latest';
+    }
+};
+
+export const resolveDependencyVersions = (changes: DependencyChange[]): Promise<DependencyChange[]> => Promise.all(changes.map(async change =>
+    change.action === 'remove' || change.version ? change : { ...change, version: await resolveLatestVersion(change.name) }));
+
+const sortKeys = (section: Record<string, string>) => Object.fromEntries(Object.entries(section).sort(([a], [b]) => a.localeCompare(b)));
+
+// Returns the updated package.json text. Versions must already be resolved; throws on invalid names and on
+// removing or upgrading packages that aren't listed, so a bad directive fails the task instead of doing nothing.
+export const applyDependencyChanges = (packageJson: string, changes: DependencyChange[]): string => {
+    const pkg = JSON.parse(packageJson);
+    for (const change of changes) {
+        if (!PACKAGE_NAME.test(change.name)) throw new Error(`"${change.name}" is not a valid npm package name.`);
+        const currentSection = pkg.dependencies?.[change.name] !== undefined ? 'dependencies'
+            : pkg.devDependencies?.[change.name] !== undefined ? 'devDependencies' : null;
+
+        if (change.action === 'remove') {
+            if (!currentSection) throw new Error(`Cannot remove ${change.name}: it is not in package.json.`);
+            delete pkg[currentSection][change.name];
+            continue;
+        }
+        if (change.action === 'upgrade' && !currentSection) throw new Error(`Cannot upgrade ${change.name}: it is not in package.json.`);
+        const section = change.action === 'upgrade' ? currentSection! : change.dev ? 'devDependencies' : 'dependencies';
+        if (currentSection && currentSection !== section) delete pkg[currentSection][change.name];
+        pkg[section] = sortKeys({ ...(pkg[section] || {}), [change.name]: change.version || 'latest' });
+    }
+    return `${JSON.stringify(pkg, null, 2)}\n`;
+};
+
+export const describeDependencyChange = (change: DependencyChange): string =>
+    change.action === 'remove' ? `remove ${change.name}` : `${change.action} ${change.name}@${change.version || 'latest'}${change.dev ? ' (dev)' : ''}`;
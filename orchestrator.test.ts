@@ -0,0 +1,452 @@
+import { describe, it, expect } from 'vitest';
+import { ABORTED_ERROR, CANCELLED_ERROR, Orchestrator, validatePlan, type OrchestratorEvent, type OrchestratorOptions } from './orchestrator';
+import { MockProvider, type ScriptedResponse } from './providers';
+import type { AgentTask, PlannedTask } from './types';
+
+// --- HELPERS ---
+const plannedTask = (id: string, agent: string, dependencies: string[] = [], filePath = `/src/${id}.ts`): PlannedTask =>
+    ({ id, description: `Write ${id}`, filePath, agent, dependencies });
+
+// An orchestrator whose agents answer from a script, keyed on the task description as the real prompts are.
+const createOrchestrator = (script: ScriptedResponse[], options: Partial<OrchestratorOptions> = {}) => {
+    const provider = new MockProvider(script);
+    const started: string[] = [];
+    const written: Record<string, string> = {};
+    const orchestrator = new Orchestrator({
+        agentNames: ['Frontend-Dev', 'UX-Designer'],
+        executeTask: async (task, signal) => {
+            started.push(task.id);
+            const content = await provider.generateText({ prompt: `Your current task is: "${task.description}"`, signal });
+            return { changes: [{ filePath: task.filePath, content, isNewFile: true }], output: content };
+        },
+        applyChanges: (_task, changes) => { changes.forEach(change => { written[change.filePath] = change.content; }); },
+        ...options,
+    });
+    return { orchestrator, started, written };
+};
+
+const runToEnd = (orchestrator: Orchestrator) => new Promise<{ tasks: AgentTask[]; succeeded: boolean }>(resolve => {
+    const unsubscribe = orchestrator.on('planFinished', result => { unsubscribe(); resolve(result); });
+    orchestrator.start();
+});
+
+const stateOf = (tasks: AgentTask[], id: string) => tasks.find(task => task.id === id)?.state;
+
+// A promise to resolve from the test, for holding an executor or a check mid-flight.
+const deferred = <T = void>() => {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(r => { resolve = r; });
+    return { promise, resolve };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// --- SCHEDULING ---
+describe('Orchestrator scheduling', () => {
+    it('runs tasks after their dependencies and writes their changes', async () => {
+        const { orchestrator, started, written } = createOrchestrator([
+            { match: 'Write a', response: 'export const a = 1;' },
+            { match: 'Write b', response: 'export const b = 2;' },
+            { match: 'Write c', response: 'export const c = 3;' },
+        ]);
+        orchestrator.loadPlan([plannedTask('c', 'Frontend-Dev', ['a', 'b']), plannedTask('a', 'Frontend-Dev'), plannedTask('b', 'UX-Designer', ['a'])]);
+
+        const result = await runToEnd(orchestrator);
+
+        expect(result.succeeded).toBe(true);
+        expect(started).toEqual(['a', 'b', 'c']);
+        expect(written).toEqual({ '/src/a.ts': 'export const a = 1;', '/src/b.ts': 'export const b = 2;', '/src/c.ts': 'export const c = 3;' });
+        expect(orchestrator.getAgents().every(agent => agent.status === 'Idle')).toBe(true);
+    });
+
+    it('runs independent tasks of different agents at the same time', async () => {
+        const { orchestrator, started } = createOrchestrator([
+            { match: 'Write a', response: 'a' },
+            { match: 'Write b', response: 'b' },
+        ]);
+        orchestrator.loadPlan([plannedTask('a', 'Frontend-Dev'), plannedTask('b', 'UX-Designer')]);
+
+        const done = runToEnd(orchestrator);
+        expect(started).toEqual(['a', 'b']); // Both started before either finished
+        expect((await done).succeeded).toBe(true);
+    });
+});
+
+// --- CONCURRENCY ---
+describe('Orchestrator concurrency', () => {
+    // Holds every execution until released, recording which tasks were running at the same time.
+    const createGatedOrchestrator = (concurrency: Record<string, number>) => {
+        const gates = new Map<string, () => void>();
+        const running = new Set<string>();
+        const overlaps: string[][] = [];
+        const orchestrator = new Orchestrator({
+            agentNames: ['Frontend-Dev', 'UX-Designer'],
+            concurrency,
+            executeTask: task => new Promise(resolve => {
+                running.add(task.id);
+                overlaps.push([...running].sort());
+                gates.set(task.id, () => { running.delete(task.id); resolve({ changes: [] }); });
+            }),
+            applyChanges: () => {},
+        });
+        const release = async (id: string) => { gates.get(id)!(); await flush(); };
+        return { orchestrator, gates, overlaps, release };
+    };
+
+    it('runs up to an agent\'s concurrency at once', async () => {
+        const { orchestrator, gates, release } = createGatedOrchestrator({ 'Frontend-Dev': 2 });
+        orchestrator.loadPlan(['a', 'b', 'c'].map(id => plannedTask(id, 'Frontend-Dev')));
+        const done = runToEnd(orchestrator);
+
+        expect([...gates.keys()]).toEqual(['a', 'b']);
+        await release('a');
+        expect([...gates.keys()]).toEqual(['a', 'b', 'c']);
+        await release('b');
+        await release('c');
+        expect((await done).succeeded).toBe(true);
+    });
+
+    it('runs tasks that share a file one after another', async () => {
+        const { orchestrator, gates, overlaps, release } = createGatedOrchestrator({ 'Frontend-Dev': 3 });
+        orchestrator.loadPlan([
+            plannedTask('a', 'Frontend-Dev', [], '/src/App.tsx'),
+            { ...plannedTask('b', 'Frontend-Dev', [], '/src/b.ts'), files: ['/src/App.tsx'] },
+            plannedTask('c', 'Frontend-Dev', [], '/src/c.ts'),
+            plannedTask('d', 'UX-Designer', [], '/src/App.tsx'),
+        ]);
+        const done = runToEnd(orchestrator);
+
+        expect([...gates.keys()]).toEqual(['a', 'c']);
+        await release('a');
+        expect([...gates.keys()]).toEqual(['a', 'c', 'b']);
+        await release('b');
+        expect([...gates.keys()]).toEqual(['a', 'c', 'b', 'd']);
+        await release('c');
+        await release('d');
+
+        expect((await done).succeeded).toBe(true);
+        expect(overlaps.some(ids => ids.filter(id => id !== 'c').length > 1)).toBe(false);
+    });
+});
+
+// --- RETRIES ---
+describe('Orchestrator retries', () => {
+    it('retries a failed attempt and keeps both attempts in the history', async () => {
+        const { orchestrator, started } = createOrchestrator([
+            { match: 'Write a', error: 'Model overloaded', times: 1 },
+            { match: 'Write a', response: 'a' },
+        ]);
+        orchestrator.loadPlan([plannedTask('a', 'Frontend-Dev')]);
+
+        const result = await runToEnd(orchestrator);
+
+        expect(result.succeeded).toBe(true);
+        expect(started).toEqual(['a', 'a']);
+        const task = result.tasks[0];
+        expect(task.retries).toBe(1);
+        expect(task.attempts?.map(attempt => attempt.outcome)).toEqual(['failed', 'succeeded']);
+        expect(task.attempts?.[0].error).toBe('Model overloaded');
+    });
+
+    it('fails a task once its automatic retries are used up', async () => {
+        const { orchestrator, started } = createOrchestrator([{ match: 'Write a', error: 'Model overloaded' }], { maxAutoRetries: 2 });
+        orchestrator.loadPlan([plannedTask('a', 'Frontend-Dev')]);
+
+        const result = await runToEnd(orchestrator);
+
+        expect(result.succeeded).toBe(false);
+        expect(started).toEqual(['a', 'a', 'a']);
+        expect(result.tasks[0]).toMatchObject({ state: 'Failed', error: 'Model overloaded' });
+    });
+});
+
+// --- BLOCKING ---
+describe('Orchestrator blocking', () => {
+    it('blocks the tasks that depend on a failed task and still runs the rest', async () => {
+        const { orchestrator, started } = createOrchestrator([
+            { match: 'Write a', error: 'Model overloaded' },
+            { match: 'Write d', response: 'd' },
+        ], { maxAutoRetries: 0 });
+        orchestrator.loadPlan([
+            plannedTask('a', 'Frontend-Dev'),
+            plannedTask('b', 'Frontend-Dev', ['a']),
+            plannedTask('c', 'UX-Designer', ['b']),
+            plannedTask('d', 'UX-Designer'),
+        ]);
+
+        const result = await runToEnd(orchestrator);
+
+        expect(result.succeeded).toBe(false);
+        expect(started).toEqual(['a', 'd']);
+        expect(['a', 'b', 'c', 'd'].map(id => stateOf(result.tasks, id))).toEqual(['Failed', 'Blocked', 'Blocked', 'Completed']);
+    });
+
+    it('unblocks dependents when a failed task is retried by hand', async () => {
+        const { orchestrator } = createOrchestrator([
+            { match: 'Write a', error: 'Model overloaded', times: 1 },
+            { match: 'Write a', response: 'a' },
+            { match: 'Write b', response: 'b' },
+        ], { maxAutoRetries: 0 });
+        orchestrator.loadPlan([plannedTask('a', 'Frontend-Dev'), plannedTask('b', 'UX-Designer', ['a'])]);
+        expect((await runToEnd(orchestrator)).succeeded).toBe(false);
+
+        orchestrator.retryTask('a');
+        const result = await runToEnd(orchestrator);
+
+        expect(result.succeeded).toBe(true);
+        expect(result.tasks.map(task => task.state)).toEqual(['Completed', 'Completed']);
+    });
+});
+
+// --- CHECKS ---
+describe('Orchestrator checks', () => {
+    it('adds follow-up tasks from a passing check', async () => {
+        const { orchestrator, started } = createOrchestrator([
+            { match: 'Write a', response: 'a' },
+            { match: 'Write a.fix', response: 'fixed' },
+        ], { runChecks: async task => task.id === 'a' ? { followUps: [plannedTask('a.fix', 'Frontend-Dev')] } : undefined });
+        orchestrator.loadPlan([plannedTask('a', 'Frontend-Dev')]);
+
+        const result = await runToEnd(orchestrator);
+
+        expect(result.succeeded).toBe(true);
+        expect(started).toEqual(['a', 'a.fix']);
+    });
+
+    it('fails a task whose checks report an error, without retrying it', async () => {
+        const { orchestrator, started } = createOrchestrator([{ match: 'Write a', response: 'a' }], {
+            maxAutoRetries: 2,
+            runChecks: async () => ({ patch: { fixRound: 2 }, error: '1 test(s) still failing' }),
+        });
+        orchestrator.loadPlan([plannedTask('a', 'Frontend-Dev'), plannedTask('b', 'Frontend-Dev', ['a'])]);
+
+        const result = await runToEnd(orchestrator);
+
+        expect(result.succeeded).toBe(false);
+        expect(started).toEqual(['a']);
+        expect(result.tasks[0]).toMatchObject({ state: 'Failed', error: '1 test(s) still failing', fixRound: 2 });
+        expect(stateOf(result.tasks, 'b')).toBe('Blocked');
+    });
+});
+
+// --- EVENTS ---
+describe('Orchestrator events', () => {
+    it('reports each task as queued, started and then completed or failed', async () => {
+        const { orchestrator } = createOrchestrator([
+            { match: 'Write a', response: 'a' },
+            { match: 'Write b', error: 'Model overloaded' },
+        ], { maxAutoRetries: 0 });
+        const events: string[] = [];
+        const record = (event: OrchestratorEvent) => orchestrator.on(event, payload => {
+            if ('task' in payload) events.push(`${event}:${payload.task.id}`);
+        });
+        (['taskQueued', 'taskStarted', 'taskCompleted', 'taskFailed'] as const).forEach(record);
+        orchestrator.loadPlan([plannedTask('a', 'Frontend-Dev'), plannedTask('b', 'Frontend-Dev', ['a'])]);
+
+        await runToEnd(orchestrator);
+
+        expect(events).toEqual(['taskQueued:a', 'taskStarted:a', 'taskCompleted:a', 'taskStarted:b', 'taskFailed:b']);
+    });
+
+    it('stops calling a handler once it unsubscribes', async () => {
+        const { orchestrator } = createOrchestrator([{ match: 'Write a', response: 'a' }]);
+        const started: string[] = [];
+        const unsubscribe = orchestrator.on('taskStarted', ({ task }) => started.push(task.id));
+        unsubscribe();
+        orchestrator.loadPlan([plannedTask('a', 'Frontend-Dev')]);
+
+        await runToEnd(orchestrator);
+
+        expect(started).toEqual([]);
+    });
+});
+
+// --- REVIEW ---
+describe('Orchestrator review gate', () => {
+    it('holds changes for review and writes them once approved', async () => {
+        const { orchestrator, written } = createOrchestrator([{ match: 'Write a', response: 'a' }], { requireReview: true });
+        const awaiting = new Promise<AgentTask>(resolve => orchestrator.on('taskAwaitingReview', ({ task }) => resolve(task)));
+        const finished = new Promise(resolve => orchestrator.on('planFinished', resolve));
+        orchestrator.loadPlan([plannedTask('a', 'Frontend-Dev')]);
+        orchestrator.start();
+
+        expect((await awaiting).pendingChanges).toHaveLength(1);
+        expect(written).toEqual({});
+        await orchestrator.approveTask('a');
+        await finished;
+
+        expect(written).toEqual({ '/src/a.ts': 'a' });
+        expect(orchestrator.getTask('a')?.state).toBe('Completed');
+    });
+
+    it('can cancel a task while its approved changes are being checked', async () => {
+        const checks = deferred();
+        const { orchestrator } = createOrchestrator([{ match: 'Write a', response: 'a' }], {
+            requireReview: true,
+            runChecks: async (_task, signal) => { await checks.promise; expect(signal?.aborted).toBe(true); },
+        });
+        const awaiting = new Promise(resolve => orchestrator.on('taskAwaitingReview', resolve));
+        orchestrator.loadPlan([plannedTask('a', 'Frontend-Dev')]);
+        orchestrator.start();
+        await awaiting;
+
+        const approving = orchestrator.approveTask('a');
+        expect(orchestrator.getTask('a')?.state).toBe('Executing');
+        orchestrator.cancelTask('a');
+        checks.resolve();
+        await approving;
+
+        expect(orchestrator.getTask('a')).toMatchObject({ state: 'Failed', error: ABORTED_ERROR });
+    });
+
+    it('can amend a task while its checks run without review', async () => {
+        const checking = deferred();
+        const checks = deferred();
+        const { orchestrator } = createOrchestrator([{ match: 'Write a', response: 'a' }, { match: 'Write a better a', response: 'better a' }], {
+            runChecks: async (task, signal) => {
+                if (task.description !== 'Write a') return;
+                checking.resolve();
+                await checks.promise;
+                expect(signal?.aborted).toBe(true);
+            },
+        });
+        orchestrator.loadPlan([plannedTask('a', 'Frontend-Dev')]);
+        const done = runToEnd(orchestrator);
+        await checking.promise;
+
+        expect(orchestrator.amendTask('a', 'Write a better a')).toBe(true);
+        checks.resolve();
+
+        expect((await done).succeeded).toBe(true);
+        expect(orchestrator.getTask('a')).toMatchObject({ state: 'Completed', description: 'Write a better a' });
+    });
+});
+
+// --- RUN CONTROL ---
+describe('Orchestrator run control', () => {
+    it('starts nothing new while paused and carries on after resuming', async () => {
+        const first = deferred<string>();
+        const started: string[] = [];
+        const orchestrator = new Orchestrator({
+            agentNames: ['Frontend-Dev'],
+            executeTask: async task => { started.push(task.id); return { changes: [], output: task.id === 'a' ? await first.promise : task.id }; },
+            applyChanges: () => {},
+        });
+        orchestrator.loadPlan([plannedTask('a', 'Frontend-Dev'), plannedTask('b', 'Frontend-Dev', ['a'])]);
+        const finished = new Promise<{ succeeded: boolean }>(resolve => orchestrator.on('planFinished', resolve));
+        orchestrator.start();
+
+        orchestrator.pause();
+        first.resolve('a');
+        await flush();
+        expect(orchestrator.getTask('a')?.state).toBe('Completed');
+        expect(started).toEqual(['a']);
+
+        orchestrator.resume();
+        expect((await finished).succeeded).toBe(true);
+        expect(started).toEqual(['a', 'b']);
+    });
+
+    it('aborts executing tasks and cancels the rest when stopped', async () => {
+        const { orchestrator } = createOrchestrator([{ match: 'Write a', response: 'a' }]);
+        const finished = new Promise<{ stopped?: boolean }>(resolve => orchestrator.on('planFinished', resolve));
+        orchestrator.loadPlan([plannedTask('a', 'Frontend-Dev'), plannedTask('b', 'Frontend-Dev', ['a'])]);
+        orchestrator.start();
+
+        orchestrator.stop();
+
+        expect((await finished).stopped).toBe(true);
+        expect(orchestrator.getTask('b')).toMatchObject({ state: 'Failed', error: CANCELLED_ERROR });
+        await flush();
+        expect(orchestrator.getTask('a')).toMatchObject({ state: 'Failed', error: ABORTED_ERROR });
+    });
+
+    it('restarts an executing task with an amended description', async () => {
+        const descriptions: string[] = [];
+        const orchestrator = new Orchestrator({
+            agentNames: ['Frontend-Dev'],
+            executeTask: (task, signal) => {
+                descriptions.push(task.description);
+                if (descriptions.length > 1) return Promise.resolve({ changes: [] });
+                return new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(new Error('aborted'))));
+            },
+            applyChanges: () => {},
+        });
+        orchestrator.loadPlan([plannedTask('a', 'Frontend-Dev')]);
+
+        const done = runToEnd(orchestrator);
+        expect(orchestrator.amendTask('a', 'Write a, in blue')).toBe(true);
+        const result = await done;
+
+        expect(result.succeeded).toBe(true);
+        expect(descriptions).toEqual(['Write a', 'Write a, in blue']);
+        expect(result.tasks[0].retries).toBe(0);
+    });
+});
+
+// --- PLAN VALIDATION ---
+describe('validatePlan', () => {
+    const agentNames = ['Frontend-Dev', 'UX-Designer'];
+    const assignAgent = () => 'Frontend-Dev';
+
+    it('rejects a plan that is not an array', () => {
+        expect(() => validatePlan({ tasks: [] }, agentNames, assignAgent)).toThrow('JSON array');
+    });
+
+    it('drops entries that are not task objects instead of crashing', () => {
+        const { tasks, issues } = validatePlan([null, 'task-1', 42, [], plannedTask('a', 'Frontend-Dev')], agentNames, assignAgent);
+
+        expect(tasks.map(task => task.id)).toEqual(['a']);
+        expect(issues.map(issue => issue.kind)).toEqual(['invalid-task', 'invalid-task', 'invalid-task', 'invalid-task']);
+        expect(issues[0].message).toBe('Plan entry 1 is not a task object.');
+    });
+
+    it('drops tasks without a description or file, and dependencies on them', () => {
+        const { tasks, issues } = validatePlan([
+            { id: 'a', agent: 'Frontend-Dev', filePath: '/src/a.ts' },
+            { id: 'b', agent: 'Frontend-Dev', description: 'Write b', filePath: '  ' },
+            plannedTask('c', 'Frontend-Dev', ['a', 'b']),
+        ], agentNames, assignAgent);
+
+        expect(tasks).toHaveLength(1);
+        expect(tasks[0]).toMatchObject({ id: 'c', dependencies: [] });
+        expect(issues.map(issue => `${issue.kind}:${issue.taskId}`)).toEqual(['invalid-task:a', 'invalid-task:b', 'missing-dependency:c', 'missing-dependency:c']);
+        expect(issues[0].message).toBe('Task "a" has no description.');
+    });
+
+    it('keeps new tasks linked to a follow-up task renamed away from an existing ID', () => {
+        const { tasks, issues } = validatePlan([
+            plannedTask('task-3', 'Frontend-Dev', ['task-1']),
+            plannedTask('task-4', 'UX-Designer', ['task-3', 'task-2']),
+        ], agentNames, assignAgent, ['task-1', 'task-2', 'task-3']);
+
+        expect(tasks.map(task => [task.id, task.dependencies])).toEqual([
+            ['task-3-2', ['task-1']],
+            ['task-4', ['task-3-2', 'task-2']],
+        ]);
+        expect(issues.map(issue => `${issue.kind}:${issue.taskId}`)).toEqual(['duplicate-id:task-3-2', 'duplicate-id:task-4']);
+        expect(issues[1].repair).toBe('Pointed it at the new task, "task-3-2".');
+    });
+
+    it('keeps a renamed follow-up task depending on the existing task it extends', () => {
+        const { tasks, issues } = validatePlan([plannedTask('task-3', 'Frontend-Dev', ['task-3'])], agentNames, assignAgent, ['task-3']);
+
+        expect(tasks.map(task => [task.id, task.dependencies])).toEqual([['task-3-2', ['task-3']]]);
+        expect(issues.map(issue => `${issue.kind}:${issue.taskId}`)).toEqual(['duplicate-id:task-3-2']);
+    });
+
+    it('renames duplicate IDs, reassigns unknown agents and breaks cycles', () => {
+        const { tasks, issues } = validatePlan([
+            plannedTask('a', 'frontend-dev', ['b']),
+            plannedTask('b', 'Backend-Dev', ['a']),
+            plannedTask('a', 'UX-Designer'),
+        ], agentNames, assignAgent);
+
+        expect(tasks.map(task => [task.id, task.agent, task.dependencies])).toEqual([
+            ['a', 'Frontend-Dev', ['b']],
+            ['b', 'Frontend-Dev', []],
+            ['a-2', 'UX-Designer', []],
+        ]);
+        expect(issues.map(issue => issue.kind)).toEqual(['duplicate-id', 'unknown-agent', 'unknown-agent', 'cycle']);
+    });
+});
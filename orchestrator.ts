@@ -0,0 +1,596 @@
+import type { Agent, AgentTask, PendingChange, PlannedTask, TaskAttempt } from './types';
+
+// --- TYPES ---
+export interface TaskExecutionResult {
+    changes: PendingChange[];
+    patch?: Partial<AgentTask>; // Merged into the task, e.g. the result of a passing build check
+    output?: string; // The agent's raw response, kept in the task's attempt history
+}
+
+// Thrown by an executor to fail the attempt while still recording details (e.g. compiler errors) on the task.
+export class TaskError extends Error {
+    constructor(message: string, readonly patch: Partial<AgentTask> = {}, readonly output?: string) {
+        super(message);
+        this.name = 'TaskError';
+    }
+}
+
+export interface TaskCheckOutcome {
+    patch?: Partial<AgentTask>; // Merged into the task, e.g. test results to show in the plan
+    followUps?: PlannedTask[]; // Added to the running plan, e.g. fixes for failing tests
+    error?: string; // Fails the task instead of completing it, without an automatic retry
+}
+
+export interface OrchestratorEvents {
+    taskQueued: { task: AgentTask };
+    taskStarted: { task: AgentTask };
+    taskAwaitingReview: { task: AgentTask };
+    taskCompleted: { task: AgentTask };
+    taskFailed: { task: AgentTask; error: string; willRetry: boolean };
+    planFinished: { tasks: AgentTask[]; succeeded: boolean; stopped?: boolean };
+    // Fired after every state transition with a fresh snapshot, for UIs that mirror the whole roster.
+    stateChanged: { agents: Agent[] };
+    // Fired when the plan starts, pauses, resumes or stops.
+    runStateChanged: { running: boolean; paused: boolean };
+}
+
+export type OrchestratorEvent = keyof OrchestratorEvents;
+
+export type PlanIssueKind = 'invalid-task' | 'duplicate-id' | 'missing-dependency' | 'self-dependency' | 'unknown-agent' | 'file-not-allowed' | 'cycle';
+
+export interface PlanIssue {
+    kind: PlanIssueKind;
+    taskId: string;
+    message: string;
+    repair: string; // What validatePlan did about it
+}
+
+export interface PlanValidation {
+    tasks: PlannedTask[];
+    issues: PlanIssue[];
+}
+
+export interface OrchestratorOptions {
+    agentNames: string[];
+    concurrency?: Record<string, number>; // Tasks each agent may execute at once; 1 for agents not listed
+    // Produces the file changes for a task. Throwing sends the task down the retry path. `signal` aborts when
+    // the task is aborted; the executor should pass it on to anything long-running, such as model requests.
+    executeTask: (task: AgentTask, signal: AbortSignal) => Promise<TaskExecutionResult>;
+    // Writes approved/finished changes into the workspace.
+    applyChanges: (task: AgentTask, changes: PendingChange[]) => void | Promise<void>;
+    // Runs after a task's changes are written and before it counts as Completed (tests, for instance). `signal`
+    // aborts when a task being approved is cancelled.
+    runChecks?: (task: AgentTask, signal?: AbortSignal) => Promise<TaskCheckOutcome | void>;
+    maxAutoRetries?: number;
+    requireReview?: boolean;
+}
+
+const DEFAULT_MAX_AUTO_RETRIES = 1;
+export const ABORTED_ERROR = 'Aborted by user';
+export const CANCELLED_ERROR = 'Cancelled by user';
+export const AMENDED_ERROR = 'Stopped to apply an amendment';
+const MAX_ATTEMPT_OUTPUT_LENGTH = 8000;
+
+const toAgentTask = (task: PlannedTask): AgentTask => ({ ...task, state: (task.dependencies && task.dependencies.length > 0) ? 'Blocked' : 'Queued', retries: 0 });
+
+const truncateOutput = (output?: string) => output && output.length > MAX_ATTEMPT_OUTPUT_LENGTH ? `${output.slice(0, MAX_ATTEMPT_OUTPUT_LENGTH)}\n…(truncated)` : output;
+
+const taskPaths = (task: AgentTask): string[] => [task.filePath, ...(task.files || [])].filter(Boolean);
+
+const isFinished = (task: AgentTask) => task.state === 'Completed' || task.state === 'Failed' || task.state === 'Blocked';
+
+// --- PLAN VALIDATION ---
+// Checks a planner's output for problems that would leave tasks stuck in 'Blocked' forever or silently
+// dropped, and repairs them: entries that aren't usable tasks are dropped, duplicate IDs are renamed, dangling and self dependencies removed,
+// unknown agents reassigned, and each dependency cycle broken at the edge that closes it.
+// `existingTaskIds` are tasks already in the running plan when validating additions to it: new tasks may
+// depend on them, and must not reuse their IDs. With `allowsFile`, tasks whose agent may not edit one of their
+// files are reassigned to one that may.
+export const validatePlan = (
+    plan: unknown,
+    agentNames: string[],
+    assignAgent: (task: PlannedTask) => string,
+    existingTaskIds: string[] = [],
+    allowsFile?: (agentName: string, path: string) => boolean,
+): PlanValidation => {
+    if (!Array.isArray(plan)) throw new Error('The plan must be a JSON array of tasks.');
+    const issues: PlanIssue[] = [];
+
+    // Malformed entries: anything but an object with a description and a file to work on
+    const entries = plan.flatMap((raw: unknown, index): (Record<string, unknown> & { id: string; description: string; filePath: string })[] => {
+        const entry = typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? raw as Record<string, unknown> : null;
+        const taskId = String(entry?.id || `task-${index + 1}`);
+        if (!entry) {
+            issues.push({ kind: 'invalid-task', taskId, message: `Plan entry ${index + 1} is not a task object.`, repair: 'Dropped it from the plan.' });
+            return [];
+        }
+        const text = (value: unknown) => typeof value === 'string' && value.trim() ? value : null;
+        const description = text(entry.description);
+        const filePath = text(entry.filePath);
+        if (description === null || filePath === null) {
+            const missing = [description === null && 'description', filePath === null && 'filePath'].filter(Boolean);
+            issues.push({ kind: 'invalid-task', taskId, message: `Task "${taskId}" has no ${missing.join(' or ')}.`, repair: 'Dropped it from the plan.' });
+            return [];
+        }
+        return [{ ...entry, id: taskId, description, filePath }];
+    });
+
+    // Duplicate IDs. A new task that reuses an existing task's ID is what the rest of the batch most likely means by
+    // that ID, so their dependencies follow it to its new name; its own dependencies on that ID mean the existing task.
+    const seenIds = new Set<string>(existingTaskIds);
+    const renamedExisting = new Map<string, string>();
+    const tasks: PlannedTask[] = entries.map(raw => {
+        const task: PlannedTask = {
+            ...raw,
+            id: raw.id,
+            description: raw.description,
+            filePath: raw.filePath,
+            agent: String(raw.agent ?? ''),
+            dependencies: Array.isArray(raw.dependencies) ? raw.dependencies.map(String) : [],
+            files: Array.isArray(raw.files) ? raw.files.map(String).filter(path => path && path !== raw.filePath) : [],
+        };
+        if (seenIds.has(task.id)) {
+            let suffix = 2;
+            while (seenIds.has(`${task.id}-${suffix}`)) suffix++;
+            const renamed = `${task.id}-${suffix}`;
+            issues.push({ kind: 'duplicate-id', taskId: renamed, message: `Task ID "${task.id}" is used more than once.`, repair: `Renamed the duplicate to "${renamed}".` });
+            if (existingTaskIds.includes(task.id) && !renamedExisting.has(task.id)) renamedExisting.set(task.id, renamed);
+            task.id = renamed;
+        }
+        seenIds.add(task.id);
+        return task;
+    });
+    tasks.forEach((task, index) => {
+        task.dependencies = task.dependencies!.map(dep => {
+            const renamed = renamedExisting.get(dep);
+            if (renamed === undefined || dep === entries[index].id) return dep;
+            issues.push({ kind: 'duplicate-id', taskId: task.id, message: `Task "${task.id}" depends on "${dep}", which is both an existing task and a new one.`, repair: `Pointed it at the new task, "${renamed}".` });
+            return renamed;
+        });
+    });
+
+    // Unknown agents
+    tasks.forEach(task => {
+        if (agentNames.includes(task.agent)) return;
+        const caseInsensitive = agentNames.find(name => name.toLowerCase() === String(task.agent || '').toLowerCase());
+        const agent = caseInsensitive || assignAgent(task);
+        issues.push({ kind: 'unknown-agent', taskId: task.id, message: `Agent "${task.agent}" does not exist.`, repair: `Reassigned to ${agent}.` });
+        task.agent = agent;
+    });
+
+    // Files outside the agent's globs
+    if (allowsFile) tasks.forEach(task => {
+        const paths = [task.filePath, ...(task.files || [])].filter(Boolean);
+        const denied = paths.find(path => !allowsFile(task.agent, path));
+        if (!denied) return;
+        const agent = assignAgent(task);
+        if (agent === task.agent || !paths.every(path => allowsFile(agent, path))) return; // Nobody fits better
+        issues.push({ kind: 'file-not-allowed', taskId: task.id, message: `${task.agent} may not edit ${denied}.`, repair: `Reassigned to ${agent}.` });
+        task.agent = agent;
+    });
+
+    // Self and dangling dependencies
+    tasks.forEach(task => {
+        task.dependencies = task.dependencies!.filter(dep => {
+            if (dep === task.id) {
+                issues.push({ kind: 'self-dependency', taskId: task.id, message: `Task "${task.id}" depends on itself.`, repair: 'Removed the dependency.' });
+                return false;
+            }
+            if (!seenIds.has(dep)) {
+                issues.push({ kind: 'missing-dependency', taskId: task.id, message: `Task "${task.id}" depends on "${dep}", which is not in the plan.`, repair: 'Removed the dependency.' });
+                return false;
+            }
+            return true;
+        });
+    });
+
+    // Cycles: depth-first search, dropping each back edge as it is found
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    const visitState = new Map<string, 'visiting' | 'done'>();
+    const visit = (task: PlannedTask, path: string[]) => {
+        visitState.set(task.id, 'visiting');
+        task.dependencies = task.dependencies!.filter(dep => {
+            const state = visitState.get(dep);
+            if (state === 'visiting') {
+                const cycle = [...path.slice(path.indexOf(dep)), task.id, dep];
+                issues.push({ kind: 'cycle', taskId: task.id, message: `Dependency cycle: ${cycle.join(' → ')}.`, repair: `Removed the dependency of "${task.id}" on "${dep}".` });
+                return false;
+            }
+            if (!state && byId.has(dep)) visit(byId.get(dep)!, [...path, task.id]); // Existing tasks can't depend on new ones
+            return true;
+        });
+        visitState.set(task.id, 'done');
+    };
+    tasks.forEach(task => { if (!visitState.has(task.id)) visit(task, []); });
+
+    return { tasks, issues };
+};
+
+// --- ORCHESTRATOR ---
+// Owns the task roster and drives execution: dependency ordering, blocking on failed
+// dependencies, automatic retries and the optional review gate. It knows nothing about
+// React; callers subscribe to events and supply the executor.
+export class Orchestrator {
+    private options: Required<OrchestratorOptions>;
+    private agents: Agent[];
+    private running = false;
+    // Paused plans keep their task states; no new tasks start until resume().
+    private paused = false;
+    // Bumped whenever the roster is replaced so results from superseded runs are dropped.
+    private generation = 0;
+    private listeners: { [K in OrchestratorEvent]?: Set<(payload: OrchestratorEvents[K]) => void> } = {};
+    private abortControllers = new Map<string, AbortController>(); // Per executing task
+    private amendments = new Map<string, string>(); // New descriptions for executing tasks being restarted
+
+    constructor(options: OrchestratorOptions) {
+        this.options = { maxAutoRetries: DEFAULT_MAX_AUTO_RETRIES, requireReview: false, runChecks: async () => {}, concurrency: {}, ...options };
+        this.agents = options.agentNames.map(name => ({ name, status: 'Idle', tasks: [] }));
+    }
+
+    on<K extends OrchestratorEvent>(event: K, handler: (payload: OrchestratorEvents[K]) => void): () => void {
+        const handlers: Set<(payload: OrchestratorEvents[K]) => void> = this.listeners[event] ?? new Set();
+        this.listeners = { ...this.listeners, [event]: handlers };
+        handlers.add(handler);
+        return () => { handlers.delete(handler); };
+    }
+
+    configure(options: Partial<OrchestratorOptions>) {
+        this.options = { ...this.options, ...options };
+        if (options.agentNames) this.syncRoster();
+    }
+
+    get isRunning(): boolean {
+        return this.running;
+    }
+
+    get isPaused(): boolean {
+        return this.paused;
+    }
+
+    getAgents(): Agent[] {
+        return this.agents;
+    }
+
+    getTasks(): AgentTask[] {
+        return this.agents.flatMap(a => a.tasks).sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+    }
+
+    getTask(taskId: string): AgentTask | undefined {
+        return this.getTasks().find(t => t.id === taskId);
+    }
+
+    // Replaces the roster with a fresh plan. Tasks with dependencies wait as 'Blocked' until they are met.
+    loadPlan(plan: PlannedTask[]) {
+        this.abortAll();
+        this.generation++;
+        this.setRunState(false, false);
+        this.agents = this.options.agentNames.map(name => ({
+            name,
+            status: 'Idle',
+            tasks: plan.filter(task => task.agent === name).map(toAgentTask),
+        }));
+        this.emitState();
+        this.getTasks().filter(t => t.state === 'Queued').forEach(task => this.emit('taskQueued', { task }));
+    }
+
+    // Appends tasks to the current plan without disturbing what is already there. Call start() to run them
+    // if the plan has already finished.
+    addTasks(plan: PlannedTask[]) {
+        const added = plan.map(toAgentTask);
+        this.agents = this.agents.map(agent => ({
+            ...agent,
+            tasks: [...agent.tasks, ...added.filter(task => task.agent === agent.name)],
+        }));
+        this.emitState();
+        added.filter(t => t.state === 'Queued').forEach(task => this.emit('taskQueued', { task }));
+    }
+
+    // Adopts a previously saved roster. Anything caught mid-execution cannot still be running, so it is re-queued.
+    restore(agents: Agent[], paused = false) {
+        this.abortAll();
+        this.generation++;
+        this.setRunState(false, paused);
+        this.agents = agents.map(agent => ({
+            ...agent,
+            status: 'Idle',
+            tasks: agent.tasks.map(task => task.state === 'Executing' ? { ...task, state: 'Queued' } : task),
+        }));
+        if (!this.syncRoster()) this.emitState();
+    }
+
+    reset() {
+        this.loadPlan([]);
+    }
+
+    start() {
+        if (this.running) return;
+        this.setRunState(true, false);
+        this.schedule();
+    }
+
+    // Stops starting new tasks. Tasks already executing finish (or can be cancelled); everything else keeps its state.
+    pause() {
+        if (!this.running) return;
+        this.setRunState(false, true);
+    }
+
+    resume() {
+        if (!this.paused) return;
+        this.start();
+    }
+
+    // Ends the run: aborts executing tasks and cancels everything that hasn't started.
+    stop() {
+        if (!this.running && !this.paused) return;
+        this.setRunState(false, false);
+        this.abortAll();
+        const pending = this.getTasks().filter(t => t.state === 'Queued' || t.state === 'Blocked');
+        pending.forEach(task => this.updateTask(task.id, { state: 'Failed', error: CANCELLED_ERROR }));
+        this.agents = this.agents.map(a => ({ ...a, status: 'Idle' }));
+        this.emitState();
+        pending.forEach(task => this.emit('taskFailed', { task: this.getTask(task.id)!, error: CANCELLED_ERROR, willRetry: false }));
+        this.emit('planFinished', { tasks: this.getTasks(), succeeded: false, stopped: true });
+    }
+
+    // Cancels one task: aborts it if it is executing, otherwise fails it before it starts. Tasks that depend on
+    // it are blocked, as with any failure; retryTask() brings it back.
+    cancelTask(taskId: string) {
+        const task = this.getTask(taskId);
+        if (!task) return;
+        if (task.state === 'Executing') {
+            this.abortTask(taskId);
+            return;
+        }
+        if (task.state !== 'Queued' && task.state !== 'Blocked') return;
+        this.updateTask(taskId, { state: 'Failed', error: CANCELLED_ERROR });
+        this.emit('taskFailed', { task: this.getTask(taskId)!, error: CANCELLED_ERROR, willRetry: false });
+        this.schedule();
+    }
+
+    retryTask(taskId: string) {
+        const task = this.getTask(taskId);
+        if (!task || task.state !== 'Failed') return;
+        this.updateTask(taskId, { state: 'Queued', retries: 0 });
+        this.emit('taskQueued', { task: this.getTask(taskId)! });
+        this.schedule();
+    }
+
+    // Stops a task while it is generating. It fails without an automatic retry; retryTask() can run it again.
+    abortTask(taskId: string) {
+        this.abortControllers.get(taskId)?.abort();
+    }
+
+    // Changes what a task should do. A task that hasn't started just gets the new description; an executing one is
+    // aborted and queued again with it. Returns false for tasks that are already done, which need a new task instead.
+    amendTask(taskId: string, description: string): boolean {
+        const task = this.getTask(taskId);
+        if (!task) return false;
+        if (task.state === 'Queued' || task.state === 'Blocked') {
+            this.updateTask(taskId, { description });
+            return true;
+        }
+        if (task.state !== 'Executing' || !this.abortControllers.has(taskId)) return false;
+        this.amendments.set(taskId, description);
+        this.abortTask(taskId);
+        return true;
+    }
+
+    // Applies a reviewed task's changes and runs its checks. It is Executing meanwhile, so it can be cancelled or
+    // amended like any other executing task.
+    async approveTask(taskId: string) {
+        const task = this.getTask(taskId);
+        if (!task || task.state !== 'AwaitingReview') return;
+        const generation = this.generation;
+        const controller = new AbortController();
+        this.abortControllers.set(taskId, controller);
+        this.updateTask(taskId, { state: 'Executing' });
+        try {
+            await this.completeTask(taskId, task.pendingChanges || [], generation, undefined, controller.signal);
+            this.abortControllers.delete(taskId);
+        } catch (e) {
+            this.abortControllers.delete(taskId);
+            const amendment = this.amendments.get(taskId);
+            this.amendments.delete(taskId);
+            if (generation !== this.generation) return;
+            const aborted = controller.signal.aborted;
+            if (aborted && amendment !== undefined) {
+                this.updateTask(taskId, { state: 'Queued', description: amendment, pendingChanges: undefined, error: undefined });
+                this.emit('taskQueued', { task: this.getTask(taskId)! });
+                this.schedule();
+                return;
+            }
+            const error = aborted ? ABORTED_ERROR : e instanceof Error ? e.message : String(e);
+            this.updateTask(taskId, { state: 'Failed', pendingChanges: undefined, error });
+            this.emit('taskFailed', { task: this.getTask(taskId)!, error, willRetry: false });
+        }
+        this.schedule();
+    }
+
+    rejectTask(taskId: string) {
+        const task = this.getTask(taskId);
+        if (!task || task.state !== 'AwaitingReview') return;
+        const attempts = task.attempts || [];
+        const rejected = attempts.map((attempt, index) => index === attempts.length - 1 ? { ...attempt, outcome: 'rejected' as const, error: 'Rejected in review' } : attempt);
+        this.updateTask(taskId, { state: 'Failed', pendingChanges: undefined, error: 'Rejected in review', attempts: rejected });
+        this.emit('taskFailed', { task: this.getTask(taskId)!, error: 'Rejected in review', willRetry: false });
+        this.schedule();
+    }
+
+    private schedule() {
+        if (!this.running) return;
+        const tasks = this.getTasks();
+
+        // --- State Consistency: Block tasks with failed dependencies ---
+        const failedTaskIds = new Set(tasks.filter(t => t.state === 'Failed').map(t => t.id));
+        const tasksToBlock = new Set(tasks
+            .filter(task => !isFinished(task) && (task.dependencies || []).some(dep => failedTaskIds.has(dep)))
+            .map(task => task.id));
+        if (tasksToBlock.size > 0) {
+            this.agents = this.agents.map(agent => ({
+                ...agent,
+                tasks: agent.tasks.map(task => tasksToBlock.has(task.id) ? { ...task, state: 'Blocked' } : task),
+            }));
+            this.emitState();
+        }
+
+        // --- Execution Logic: Find and run available tasks, up to each agent's concurrency ---
+        // Tasks that share a file never run at the same time: each writes the whole file from the content it started
+        // with, so the last one to finish would silently drop the other's edits.
+        const completedTaskIds = new Set(tasks.filter(t => t.state === 'Completed').map(t => t.id));
+        const busyPaths = new Set(tasks.filter(t => t.state === 'Executing').flatMap(taskPaths));
+        const runnableTasks: AgentTask[] = [];
+        this.agents.forEach(agent => {
+            let slots = (this.options.concurrency[agent.name] ?? 1) - agent.tasks.filter(t => t.state === 'Executing').length;
+            agent.tasks.forEach(t => {
+                if (slots <= 0 || (t.state !== 'Queued' && t.state !== 'Blocked') || tasksToBlock.has(t.id)) return;
+                if (!(t.dependencies || []).every(dep => completedTaskIds.has(dep))) return;
+                const paths = taskPaths(t);
+                if (paths.some(path => busyPaths.has(path))) return;
+                paths.forEach(path => busyPaths.add(path));
+                runnableTasks.push(t);
+                slots--;
+            });
+        });
+
+        if (runnableTasks.length > 0) {
+            runnableTasks.forEach(task => this.runTask(task));
+            return;
+        }
+
+        const current = this.getTasks();
+        const anyExecuting = current.some(t => t.state === 'Executing');
+        if (!anyExecuting && current.length > 0 && current.every(isFinished)) {
+            this.setRunState(false, false);
+            this.agents = this.agents.map(a => ({ ...a, status: 'Idle' }));
+            this.emitState();
+            this.emit('planFinished', { tasks: current, succeeded: !current.some(t => t.state === 'Failed' || t.state === 'Blocked') });
+        }
+    }
+
+    private async runTask(task: AgentTask) {
+        const generation = this.generation;
+        // The previous attempt's error stays on the task while it runs so the executor can learn from it.
+        this.updateTask(task.id, { state: 'Executing' }, 'Working');
+        const started = this.getTask(task.id)!;
+        this.emit('taskStarted', { task: started });
+        const attempt = { number: (started.attempts?.length || 0) + 1, startedAt: Date.now() };
+        const controller = new AbortController();
+        this.abortControllers.set(task.id, controller);
+
+        try {
+            const result = await this.options.executeTask(started, controller.signal);
+            if (generation !== this.generation) return;
+            if (controller.signal.aborted) throw new Error(ABORTED_ERROR); // The executor finished regardless
+            this.updateTask(task.id, {
+                ...result.patch,
+                attempts: [...(started.attempts || []), { ...attempt, finishedAt: Date.now(), outcome: 'succeeded', output: truncateOutput(result.output), verification: result.patch?.verification }],
+            });
+
+            if (this.options.requireReview && result.changes.length > 0) {
+                this.abortControllers.delete(task.id);
+                this.updateTask(task.id, { state: 'AwaitingReview', pendingChanges: result.changes, error: undefined }, 'Idle');
+                this.emit('taskAwaitingReview', { task: this.getTask(task.id)! });
+            } else {
+                // Still cancellable while its checks run, as an approved task is
+                await this.completeTask(task.id, result.changes, generation, 'Idle', controller.signal);
+                this.abortControllers.delete(task.id);
+                if (generation !== this.generation) return;
+            }
+        } catch (e) {
+            this.abortControllers.delete(task.id);
+            const amendment = this.amendments.get(task.id);
+            this.amendments.delete(task.id);
+            if (generation !== this.generation) return;
+            const aborted = controller.signal.aborted;
+            const error = aborted ? (amendment !== undefined ? AMENDED_ERROR : ABORTED_ERROR) : e instanceof Error ? e.message : String(e);
+            const failure: TaskAttempt = {
+                ...attempt,
+                finishedAt: Date.now(),
+                outcome: aborted ? 'aborted' : 'failed',
+                error,
+                output: truncateOutput(e instanceof TaskError ? e.output : undefined),
+                verification: e instanceof TaskError ? e.patch.verification : undefined,
+            };
+            const patch = { ...(e instanceof TaskError ? e.patch : {}), attempts: [...(started.attempts || []), failure] };
+            if (aborted && amendment !== undefined) {
+                // Not a failure: the task starts over with what it was asked to do instead.
+                this.updateTask(task.id, { ...patch, state: 'Queued', description: amendment, error: undefined }, 'Idle');
+                this.emit('taskQueued', { task: this.getTask(task.id)! });
+                this.schedule();
+                return;
+            }
+            const newRetryCount = started.retries + 1;
+            const willRetry = !aborted && newRetryCount <= this.options.maxAutoRetries;
+            this.updateTask(task.id, willRetry ? { ...patch, state: 'Queued', retries: newRetryCount, error } : { ...patch, state: 'Failed', error }, 'Idle');
+            this.emit('taskFailed', { task: this.getTask(task.id)!, error, willRetry });
+            if (willRetry) this.emit('taskQueued', { task: this.getTask(task.id)! });
+        }
+        this.schedule();
+    }
+
+    // Writes a task's changes, runs the post-apply checks and marks it Completed, adding any follow-up tasks, or
+    // Failed when the checks say so.
+    // With `signal`, an abort before the changes are written or before the task completes throws ABORTED_ERROR.
+    private async completeTask(taskId: string, changes: PendingChange[], generation: number, agentStatus?: Agent['status'], signal?: AbortSignal) {
+        if (signal?.aborted) throw new Error(ABORTED_ERROR);
+        await this.options.applyChanges(this.getTask(taskId)!, changes);
+        if (generation !== this.generation) return;
+        const outcome: TaskCheckOutcome = (await this.options.runChecks(this.getTask(taskId)!, signal)) || {};
+        if (generation !== this.generation) return;
+        if (signal?.aborted) throw new Error(ABORTED_ERROR);
+        if (outcome.error !== undefined) {
+            this.updateTask(taskId, { ...outcome.patch, state: 'Failed', pendingChanges: undefined, error: outcome.error }, agentStatus);
+            this.emit('taskFailed', { task: this.getTask(taskId)!, error: outcome.error, willRetry: false });
+            return;
+        }
+        this.updateTask(taskId, { ...outcome.patch, state: 'Completed', pendingChanges: undefined, error: undefined }, agentStatus);
+        this.emit('taskCompleted', { task: this.getTask(taskId)! });
+        if (outcome.followUps && outcome.followUps.length > 0) this.addTasks(outcome.followUps);
+    }
+
+    private updateTask(taskId: string, patch: Partial<AgentTask>, agentStatus?: Agent['status']) {
+        this.agents = this.agents.map(agent => {
+            if (!agent.tasks.some(t => t.id === taskId)) return agent;
+            const tasks = agent.tasks.map(t => t.id === taskId ? { ...t, ...patch } : t);
+            // An agent running several tasks at once stays Working until the last one finishes.
+            const status = agentStatus === 'Idle' && tasks.some(t => t.state === 'Executing') ? 'Working' : agentStatus ?? agent.status;
+            return { ...agent, status, tasks };
+        });
+        this.emitState();
+    }
+
+    // Adds agents that joined the registry and drops ones that left it, unless they still hold tasks.
+    // Returns whether the roster changed (and was emitted).
+    private syncRoster(): boolean {
+        const names = this.options.agentNames;
+        const roster = [
+            ...names.map(name => this.agents.find(agent => agent.name === name) || { name, status: 'Idle' as const, tasks: [] }),
+            ...this.agents.filter(agent => !names.includes(agent.name) && agent.tasks.length > 0),
+        ];
+        if (roster.length === this.agents.length && roster.every((agent, index) => agent === this.agents[index])) return false;
+        this.agents = roster;
+        this.emitState();
+        return true;
+    }
+
+    private emit<K extends OrchestratorEvent>(event: K, payload: OrchestratorEvents[K]) {
+        this.listeners[event]?.forEach(handler => handler(payload));
+    }
+
+    private abortAll() {
+        this.abortControllers.forEach(controller => controller.abort());
+        this.abortControllers.clear();
+        this.amendments.clear();
+    }
+
+    private setRunState(running: boolean, paused: boolean) {
+        if (this.running === running && this.paused === paused) return;
+        this.running = running;
+        this.paused = paused;
+        this.emit('runStateChanged', { running, paused });
+    }
+
+    private emitState() {
+        this.emit('stateChanged', { agents: this.agents });
+    }
+}
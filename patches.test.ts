@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { applyFileEdits, parseEditResponse } from './patches';
+
+const app = `import React from 'react';
+
+export const App = () => {
+    const count = 0;
+    return <div>{count}</div>;
+};
+`;
+
+const files: Record<string, string> = { '/src/App.tsx': app, '/src/empty.ts': '', '/src/list.ts': 'a\nb\na\nb\n' };
+const readFile = (path: string) => files[path];
+
+// --- PARSING ---
+describe('parseEditResponse', () => {
+    it('groups blocks under their file and makes paths absolute', () => {
+        const edits = parseEditResponse([
+            'FILE: src/App.tsx',
+            '<<<<<<< SEARCH',
+            '    const count = 0;',
+            '=======',
+            '    const count = 1;',
+            '>>>>>>> REPLACE',
+            'FILE: `/src/index.css`',
+            '<<<<<<< SEARCH',
+            '=======',
+            'body { margin: 0; }',
+            '>>>>>>> REPLACE',
+            'FILE: /src/App.tsx',
+            '<<<<<<< SEARCH',
+            'import React from \'react\';',
+            '=======',
+            '>>>>>>> REPLACE',
+        ].join('\r\n'));
+
+        expect(edits).toEqual([
+            { filePath: '/src/App.tsx', blocks: [{ search: '    const count = 0;', replace: '    const count = 1;' }, { search: 'import React from \'react\';', replace: '' }] },
+            { filePath: '/src/index.css', blocks: [{ search: '', replace: 'body { margin: 0; }' }] },
+        ]);
+    });
+
+    it('rejects responses without blocks, or with blocks missing a file or a marker', () => {
+        expect(() => parseEditResponse('Here is the updated file.')).toThrow('no SEARCH/REPLACE edit blocks');
+        expect(() => parseEditResponse('<<<<<<< SEARCH\na\n=======\nb\n>>>>>>> REPLACE')).toThrow('is not preceded by a "FILE: <path>" line');
+        expect(() => parseEditResponse('FILE: /a.ts\n<<<<<<< SEARCH\na\nb')).toThrow('has no "=======" divider');
+        expect(() => parseEditResponse('FILE: /a.ts\n<<<<<<< SEARCH\na\n=======\nb')).toThrow('has no ">>>>>>> REPLACE" marker');
+    });
+});
+
+// --- APPLYING ---
+describe('applyFileEdits', () => {
+    it('replaces the matched lines and keeps the rest of the file', () => {
+        const changes = applyFileEdits([{ filePath: '/src/App.tsx', blocks: [{ search: '    const count = 0;', replace: '    const count = 1;\n    const step = 2;' }] }], readFile);
+
+        expect(changes).toEqual([{ filePath: '/src/App.tsx', content: app.replace('    const count = 0;', '    const count = 1;\n    const step = 2;'), isNewFile: false }]);
+    });
+
+    it('falls back to ignoring indentation, keeping the file\'s lines outside the match', () => {
+        const [change] = applyFileEdits([{ filePath: '/src/App.tsx', blocks: [{ search: 'const count = 0;\n  return <div>{count}</div>;  ', replace: '    return <div>1</div>;' }] }], readFile);
+
+        expect(change.content).toBe(`import React from 'react';
+
+export const App = () => {
+    return <div>1</div>;
+};
+`);
+    });
+
+    it('does not match part of a line', () => {
+        expect(() => applyFileEdits([{ filePath: '/src/App.tsx', blocks: [{ search: 'count = 0;', replace: 'count = 1;' }] }], readFile))
+            .toThrow('Edit 1 for /src/App.tsx did not match the current file (SEARCH starts with "count = 0;").');
+    });
+
+    it('fails the whole task with the reason when any block does not apply', () => {
+        const valid = { filePath: '/src/App.tsx', blocks: [{ search: '    const count = 0;', replace: '    const count = 1;' }] };
+
+        expect(() => applyFileEdits([{ ...valid, blocks: [...valid.blocks, { search: 'const total = 0;', replace: 'const total = 1;' }] }], readFile))
+            .toThrow('Edit 2 for /src/App.tsx did not match the current file (SEARCH starts with "const total = 0;").');
+        expect(() => applyFileEdits([valid, { filePath: '/src/list.ts', blocks: [{ search: 'a\nb', replace: 'c' }] }], readFile))
+            .toThrow('Edit 1 for /src/list.ts matches 2 places; its SEARCH section needs more context to be unique.');
+        expect(() => applyFileEdits([{ ...valid, blocks: [...valid.blocks, { search: '', replace: 'export {};' }] }], readFile))
+            .toThrow('Edit 2 for /src/App.tsx has an empty SEARCH section, but the file already has content.');
+    });
+
+    it('creates new files and fills empty ones from an empty SEARCH', () => {
+        const changes = applyFileEdits([
+            { filePath: '/src/new.ts', blocks: [{ search: '', replace: 'export const value = 1;\n' }] },
+            { filePath: '/src/empty.ts', blocks: [{ search: '\n', replace: 'export {};\n' }] },
+        ], readFile);
+
+        expect(changes).toEqual([
+            { filePath: '/src/new.ts', content: 'export const value = 1;\n', isNewFile: true },
+            { filePath: '/src/empty.ts', content: 'export {};\n', isNewFile: false },
+        ]);
+    });
+
+    it('refuses to search a file that does not exist', () => {
+        expect(() => applyFileEdits([{ filePath: '/src/missing.ts', blocks: [{ search: 'a', replace: 'b' }] }], readFile))
+            .toThrow('Edit 1 for /src/missing.ts searches a file that does not exist.');
+    });
+
+    it('refuses edits to files outside the task\'s allowed paths', () => {
+        const edits = [{ filePath: '/src/App.tsx', blocks: [{ search: '    const count = 0;', replace: '    const count = 1;' }] }, { filePath: '/server/index.ts', blocks: [{ search: '', replace: 'x' }] }];
+
+        expect(() => applyFileEdits(edits, readFile, ['/src/App.tsx', '/src/App.css']))
+            .toThrow('Edited /server/index.ts, which is not one of the task\'s files (/src/App.tsx, /src/App.css).');
+        expect(applyFileEdits(edits.slice(0, 1), readFile, ['/src/App.tsx'])).toHaveLength(1);
+    });
+});
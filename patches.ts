@@ -0,0 +1,138 @@
+import type { PendingChange } from './types';
+
+// --- TYPES ---
+// Agents answer with SEARCH/REPLACE blocks grouped under the file they edit:
+//
+//   FILE: /src/App.tsx
+//   <<<<<<< SEARCH
+//   exact lines from the current file
+//   =======
+//   the lines that replace them
+//   >>>>>>> REPLACE
+//
+// An empty SEARCH section creates the file (or fills an empty one) with the REPLACE section.
+export interface EditBlock {
+    search: string;
+    replace: string;
+}
+
+export interface FileEdit {
+    filePath: string;
+    blocks: EditBlock[];
+}
+
+// --- CONFIG ---
+const FILE_MARKER = /^FILE:\s*`?([^`\s]+)`?\s*$/;
+const SEARCH_MARKER = /^<{5,9} SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,9}\s*$/;
+const REPLACE_MARKER = /^>{5,9} REPLACE\s*$/;
+
+export const EDIT_FORMAT_INSTRUCTIONS = `Respond ONLY with edits in this exact format, one or more blocks per file, with no explanation:
+
+FILE: /path/to/file
+<<<<<<< SEARCH
+lines copied exactly from the current file, with enough surrounding lines to be unique
+=======
+the lines that replace them
+>>>>>>> REPLACE
+
+Rules:
+- The SEARCH section must match the current file exactly, including indentation, and must match only once.
+- Keep SEARCH sections short: include only the lines that change plus a little context.
+- To create a new file, use an empty SEARCH section and put the whole file in the REPLACE section.
+- To delete lines, leave the REPLACE section empty.
+- Do not wrap the blocks in markdown code fences.`;
+
+// --- PARSING ---
+export const parseEditResponse = (text: string): FileEdit[] => {
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    const edits: FileEdit[] = [];
+    let current: FileEdit | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+        const fileMatch = lines[i].match(FILE_MARKER);
+        if (fileMatch) {
+            const filePath = fileMatch[1].startsWith('/') ? fileMatch[1] : `/${fileMatch[1]}`;
+            current = edits.find(edit => edit.filePath === filePath) || null;
+            if (!current) {
+                current = { filePath, blocks: [] };
+                edits.push(current);
+            }
+            continue;
+        }
+        if (!SEARCH_MARKER.test(lines[i])) continue;
+        if (!current) throw new Error(`Edit block on line ${i + 1} is not preceded by a "FILE: <path>" line.`);
+
+        const search: string[] = [];
+        const replace: string[] = [];
+        let j = i + 1;
+        while (j < lines.length && !DIVIDER_MARKER.test(lines[j])) search.push(lines[j++]);
+        if (j >= lines.length) throw new Error(`Edit block for ${current.filePath} starting on line ${i + 1} has no "=======" divider.`);
+        j++;
+        while (j < lines.length && !REPLACE_MARKER.test(lines[j])) replace.push(lines[j++]);
+        if (j >= lines.length) throw new Error(`Edit block for ${current.filePath} starting on line ${i + 1} has no ">>>>>>> REPLACE" marker.`);
+
+        current.blocks.push({ search: search.join('\n'), replace: replace.join('\n') });
+        i = j;
+    }
+
+    if (edits.every(edit => edit.blocks.length === 0)) {
+        throw new Error('The response contained no SEARCH/REPLACE edit blocks.');
+    }
+    return edits.filter(edit => edit.blocks.length > 0);
+};
+
+// --- APPLYING ---
+// Matches whole lines only, so a SEARCH line can't latch onto the tail of a longer line.
+const findLineMatches = (lines: string[], searchLines: string[], normalize: (line: string) => string): number[] => {
+    const matches: number[] = [];
+    for (let start = 0; start + searchLines.length <= lines.length; start++) {
+        if (searchLines.every((line, offset) => normalize(lines[start + offset]) === normalize(line))) matches.push(start);
+    }
+    return matches;
+};
+
+// Models often get indentation or trailing whitespace slightly wrong, so an exact match falls back to one that
+// ignores leading and trailing whitespace. The file's own lines outside the replaced range are kept as they are.
+const applyBlock = (content: string, block: EditBlock, filePath: string, blockNumber: number): string => {
+    const lines = content.split('\n');
+    const searchLines = block.search.split('\n');
+    let matches = findLineMatches(lines, searchLines, line => line.trimEnd());
+    if (matches.length === 0) matches = findLineMatches(lines, searchLines, line => line.trim());
+
+    if (matches.length > 1) {
+        throw new Error(`Edit ${blockNumber} for ${filePath} matches ${matches.length} places; its SEARCH section needs more context to be unique.`);
+    }
+    if (matches.length === 0) {
+        const firstLine = searchLines.find(line => line.trim()) || '';
+        throw new Error(`Edit ${blockNumber} for ${filePath} did not match the current file (SEARCH starts with "${firstLine.trim().slice(0, 60)}").`);
+    }
+    const replaceLines = block.replace ? block.replace.split('\n') : [];
+    return [...lines.slice(0, matches[0]), ...replaceLines, ...lines.slice(matches[0] + searchLines.length)].join('\n');
+};
+
+// Validates every block before anything is returned, so a task either applies completely or not at all.
+// `readFile` returns undefined for files that don't exist yet.
+export const applyFileEdits = (edits: FileEdit[], readFile: (path: string) => string | undefined, allowedPaths?: string[]): PendingChange[] => {
+    return edits.map(edit => {
+        if (allowedPaths && !allowedPaths.includes(edit.filePath)) {
+            throw new Error(`Edited ${edit.filePath}, which is not one of the task's files (${allowedPaths.join(', ')}).`);
+        }
+        const existing = readFile(edit.filePath);
+        let content = existing ?? '';
+        edit.blocks.forEach((block, index) => {
+            if (block.search.trim() === '') {
+                if (content.trim() !== '') {
+                    throw new Error(`Edit ${index + 1} for ${edit.filePath} has an empty SEARCH section, but the file already has content.`);
+                }
+                content = block.replace;
+                return;
+            }
+            if (existing === undefined) {
+                throw new Error(`Edit ${index + 1} for ${edit.filePath} searches a file that does not exist.`);
+            }
+            content = applyBlock(content, block, edit.filePath, index + 1);
+        });
+        return { filePath: edit.filePath, content, isNewFile: existing === undefined };
+    });
+};
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { layoutPlanGraph } from './planGraph';
+import type { AgentTask } from './types';
+
+const task = (id: string, agent: string, dependencies: string[] = []): AgentTask =>
+    ({ id, description: `Write ${id}`, filePath: `/src/${id}.ts`, agent, dependencies, state: 'Queued', retries: 0 });
+
+describe('layoutPlanGraph', () => {
+    it('puts tasks in columns by dependency depth and lanes by agent', () => {
+        const layout = layoutPlanGraph([task('a', 'Frontend-Dev'), task('b', 'UX-Designer', ['a']), task('c', 'Frontend-Dev')], ['Frontend-Dev', 'UX-Designer']);
+
+        expect(layout.lanes.map(lane => lane.name)).toEqual(['Frontend-Dev', 'UX-Designer']);
+        expect(layout.positions.get('a')!.x).toBe(layout.positions.get('c')!.x);
+        expect(layout.positions.get('b')!.x).toBeGreaterThan(layout.positions.get('a')!.x);
+        expect(layout.positions.get('b')!.y).toBeGreaterThanOrEqual(layout.lanes[1].y);
+    });
+
+    it('marks the longest dependency chain as the critical path', () => {
+        const layout = layoutPlanGraph([
+            task('a', 'Frontend-Dev'),
+            task('b', 'Frontend-Dev', ['a']),
+            task('c', 'UX-Designer', ['b']),
+            task('d', 'UX-Designer', ['a']),
+        ], ['Frontend-Dev', 'UX-Designer']);
+
+        expect([...layout.criticalPath].sort()).toEqual(['a', 'b', 'c']);
+        expect(layout.edges.filter(edge => edge.critical).map(edge => `${edge.from}->${edge.to}`).sort()).toEqual(['a->b', 'b->c']);
+    });
+
+    it('lays out a cyclic plan from an old session without hanging', () => {
+        const layout = layoutPlanGraph([task('a', 'Frontend-Dev', ['b']), task('b', 'Frontend-Dev', ['a']), task('c', 'Frontend-Dev', ['a'])], ['Frontend-Dev']);
+
+        expect(layout.positions.size).toBe(3);
+        expect([...layout.criticalPath].sort()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('gives agents missing from the roster a lane of their own', () => {
+        const layout = layoutPlanGraph([task('a', 'Retired-Agent')], ['Frontend-Dev']);
+        expect(layout.lanes.map(lane => lane.name)).toEqual(['Retired-Agent']);
+    });
+});
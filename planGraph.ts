@@ -0,0 +1,77 @@
+import type { AgentTask, AgentTaskState } from './types';
+
+// --- CONFIG ---
+// Node colors mirror the list view's Tailwind state classes, as raw values for SVG.
+export const TASK_STATE_GRAPH_COLORS: Record<AgentTaskState, { fill: string; stroke: string }> = {
+    'Blocked': { fill: '#374151', stroke: '#4b5563' },
+    'Queued': { fill: '#164e63', stroke: '#0e7490' },
+    'Executing': { fill: '#713f12', stroke: '#a16207' },
+    'AwaitingReview': { fill: '#78350f', stroke: '#d97706' },
+    'Completed': { fill: '#14532d', stroke: '#15803d' },
+    'Failed': { fill: '#7f1d1d', stroke: '#b91c1c' },
+};
+
+export const GRAPH_NODE_WIDTH = 180;
+export const GRAPH_NODE_HEIGHT = 44;
+const GRAPH_COLUMN_GAP = 48;
+const GRAPH_ROW_GAP = 10;
+const GRAPH_LANE_LABEL_WIDTH = 110;
+const GRAPH_LANE_PADDING = 12;
+
+// --- LAYOUT ---
+// Columns are dependency depth, so tasks in the same column can run in parallel. The critical path is the
+// longest dependency chain, i.e. the minimum number of sequential steps the plan needs.
+export const layoutPlanGraph = (tasks: AgentTask[], agentNames: string[]) => {
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    const dependenciesOf = (task: AgentTask) => (task.dependencies || []).filter(dep => byId.has(dep));
+
+    const levels = new Map<string, number>();
+    const predecessor = new Map<string, string | null>(); // Longest-chain predecessor, for the critical path
+    const levelOf = (task: AgentTask, visiting = new Set<string>()): number => {
+        const known = levels.get(task.id);
+        if (known !== undefined) return known;
+        if (visiting.has(task.id)) return 0; // Cycles are repaired by validatePlan; don't recurse forever on old sessions
+        visiting.add(task.id);
+        let level = 0;
+        let longest: string | null = null;
+        dependenciesOf(task).forEach(dep => {
+            const depLevel = levelOf(byId.get(dep)!, visiting) + 1;
+            if (depLevel > level) { level = depLevel; longest = dep; }
+        });
+        levels.set(task.id, level);
+        predecessor.set(task.id, longest);
+        return level;
+    };
+    tasks.forEach(task => levelOf(task));
+
+    const criticalPath = new Set<string>();
+    const deepest = tasks.reduce<AgentTask | null>((best, task) => !best || levels.get(task.id)! > levels.get(best.id)! ? task : best, null);
+    // Stops at a task already on the path: in a cycle the predecessors point back at each other.
+    for (let id: string | null = deepest?.id ?? null; id && !criticalPath.has(id); id = predecessor.get(id) ?? null) criticalPath.add(id);
+
+    const laneNames = [...agentNames.filter(name => tasks.some(task => task.agent === name)), ...new Set(tasks.map(task => task.agent).filter(name => !agentNames.includes(name)))];
+    const positions = new Map<string, { x: number; y: number }>();
+    const lanes: { name: string; y: number; height: number }[] = [];
+    let laneTop = 0;
+    laneNames.forEach(name => {
+        const stackHeights = new Map<number, number>();
+        tasks.filter(task => task.agent === name).forEach(task => {
+            const level = levels.get(task.id)!;
+            const row = stackHeights.get(level) || 0;
+            stackHeights.set(level, row + 1);
+            positions.set(task.id, {
+                x: GRAPH_LANE_LABEL_WIDTH + level * (GRAPH_NODE_WIDTH + GRAPH_COLUMN_GAP),
+                y: laneTop + GRAPH_LANE_PADDING + row * (GRAPH_NODE_HEIGHT + GRAPH_ROW_GAP),
+            });
+        });
+        const rows = Math.max(1, ...stackHeights.values());
+        const height = rows * GRAPH_NODE_HEIGHT + (rows - 1) * GRAPH_ROW_GAP + GRAPH_LANE_PADDING * 2;
+        lanes.push({ name, y: laneTop, height });
+        laneTop += height;
+    });
+
+    const maxLevel = Math.max(0, ...levels.values());
+    const width = GRAPH_LANE_LABEL_WIDTH + (maxLevel + 1) * (GRAPH_NODE_WIDTH + GRAPH_COLUMN_GAP);
+    const edges = tasks.flatMap(task => dependenciesOf(task).map(dep => ({ from: dep, to: task.id, critical: criticalPath.has(dep) && criticalPath.has(task.id) && predecessor.get(task.id) === dep })));
+    return { positions, lanes, edges, criticalPath, width, height: laneTop };
+};
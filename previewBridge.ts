@@ -0,0 +1,83 @@
+// --- TYPES ---
+// Messages the bridge script posts from inside the preview iframe to Agentic.
+export type PreviewMessage =
+    | { source: typeof PREVIEW_MESSAGE_SOURCE; type: 'console'; level: 'log' | 'info' | 'warn' | 'error' | 'debug'; text: string }
+    | { source: typeof PREVIEW_MESSAGE_SOURCE; type: 'error'; message: string; stack?: string; filename?: string; line?: number; column?: number };
+
+export interface StackLocation {
+    filePath: string;
+    line?: number;
+    column?: number;
+}
+
+// --- CONFIG ---
+export const PREVIEW_MESSAGE_SOURCE = 'agentic-preview';
+// Wraps the injected script so it can be found and removed again when the container's index.html is read back.
+const BRIDGE_START_MARKER = '<!-- agentic-preview-bridge:start -->';
+const BRIDGE_END_MARKER = '<!-- agentic-preview-bridge:end -->';
+
+// Runs before the app's own scripts, so errors thrown while the app boots are caught too.
+const BRIDGE_SCRIPT = `<script>
+(function () {
+    if (window.parent === window) return;
+    var SOURCE = '${PREVIEW_MESSAGE_SOURCE}';
+    var post = function (message) {
+        message.source = SOURCE;
+        try { window.parent.postMessage(message, '*'); } catch (e) { /* The parent may have gone away */ }
+    };
+    var format = function (value) {
+        if (value instanceof Error) return value.stack || value.message;
+        if (typeof value === 'string') return value;
+        try { return JSON.stringify(value); } catch (e) { return String(value); }
+    };
+    ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+        var original = console[level];
+        console[level] = function () {
+            var args = Array.prototype.slice.call(arguments);
+            post({ type: 'console', level: level, text: args.map(format).join(' ') });
+            return original.apply(console, args);
+        };
+    });
+    window.addEventListener('error', function (event) {
+        post({ type: 'error', message: event.message, stack: event.error && event.error.stack, filename: event.filename, line: event.lineno, column: event.colno });
+    });
+    window.addEventListener('unhandledrejection', function (event) {
+        var reason = event.reason;
+        post({ type: 'error', message: 'Unhandled promise rejection: ' + (reason && reason.message ? reason.message : format(reason)), stack: reason && reason.stack });
+    });
+})();
+</script>`;
+
+// --- HELPERS ---
+export const injectPreviewBridge = (html: string): string => {
+    if (html.includes(BRIDGE_START_MARKER)) return html;
+    const bridge = `${BRIDGE_START_MARKER}\n${BRIDGE_SCRIPT}\n${BRIDGE_END_MARKER}`;
+    const head = html.match(/<head[^>]*>/i);
+    if (head) return html.replace(head[0], `${head[0]}\n${bridge}`);
+    return `${bridge}\n${html}`;
+};
+
+export const stripPreviewBridge = (html: string): string => {
+    const start = html.indexOf(BRIDGE_START_MARKER);
+    const end = html.indexOf(BRIDGE_END_MARKER);
+    if (start === -1 || end === -1) return html;
+    return html.slice(0, start).replace(/\n$/, '') + html.slice(end + BRIDGE_END_MARKER.length);
+};
+
+export const isPreviewMessage = (data: unknown): data is PreviewMessage =>
+    typeof data === 'object' && data !== null && (data as { source?: unknown }).source === PREVIEW_MESSAGE_SOURCE;
+
+// Finds the first stack frame (or the error's own filename) that points into the workspace, e.g.
+// `at App (http://localhost:5173/src/App.tsx?t=1712:14:11)` -> { filePath: '/src/App.tsx', line: 14, column: 11 }.
+// Frames from node_modules and Vite's own modules are skipped.
+export const findStackLocation = (stack = '', filename = ''): StackLocation | null => {
+    const candidates = [...stack.split('\n'), filename];
+    for (const candidate of candidates) {
+        const match = candidate.match(/https?:\/\/[^/\s]+(\/[^?\s):]+)(?:\?[^\s):]*)?(?::(\d+))?(?::(\d+))?/);
+        if (!match) continue;
+        const filePath = decodeURIComponent(match[1]);
+        if (filePath.includes('/node_modules/') || filePath.startsWith('/@')) continue;
+        return { filePath, line: match[2] ? Number(match[2]) : undefined, column: match[3] ? Number(match[3]) : undefined };
+    }
+    return null;
+};
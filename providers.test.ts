@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { MockProvider, promptMatches } from './providers';
+
+describe('promptMatches', () => {
+    const prompt = 'Some context.\nYour current task is: "Add a counter"\nMore context.';
+
+    it('matches the prompt key exactly', () => {
+        expect(promptMatches('Add a counter', prompt)).toBe(true);
+        expect(promptMatches('Add a', prompt)).toBe(false);
+        expect(promptMatches('counter', prompt)).toBe(false);
+    });
+
+    it('never matches on an empty key', () => {
+        expect(promptMatches('', prompt)).toBe(false);
+        expect(promptMatches('  ', prompt)).toBe(false);
+        expect(promptMatches('', '')).toBe(false);
+    });
+
+    it('tests regexes against the whole prompt', () => {
+        expect(promptMatches('/more CONTEXT/i', prompt)).toBe(true);
+        expect(promptMatches('/^Add/', prompt)).toBe(false);
+    });
+});
+
+describe('MockProvider', () => {
+    it('serves entries in order until their uses run out', async () => {
+        const provider = new MockProvider([
+            { match: 'Add a counter', response: 'first', times: 1 },
+            { match: 'Add a counter', response: 'second' },
+        ]);
+        const request = { prompt: 'Your current task is: "Add a counter"' };
+        expect(await provider.generateText(request)).toBe('first');
+        expect(await provider.generateText(request)).toBe('second');
+        expect(await provider.generateText(request)).toBe('second');
+    });
+
+    it('does not let a short entry answer other prompts', async () => {
+        const provider = new MockProvider([{ match: 'a', response: 'wrong' }, { match: 'Add a counter', response: 'right' }]);
+        expect(await provider.generateText({ prompt: 'Your current task is: "Add a counter"' })).toBe('right');
+        await expect(provider.generateText({ prompt: 'Your current task is: "Style the page"' })).rejects.toThrow('no recorded response');
+    });
+
+    it('throws scripted errors', async () => {
+        const provider = new MockProvider([{ match: 'Add a counter', error: 'Model overloaded' }]);
+        await expect(provider.generateText({ prompt: 'Your current task is: "Add a counter"' })).rejects.toThrow('Model overloaded');
+    });
+
+    it('streams the response in chunks', async () => {
+        const provider = new MockProvider([{ match: 'Add a counter', response: 'const count = 0;' }]);
+        const chunks: string[] = [];
+        const response = await provider.generateText({ prompt: 'Your current task is: "Add a counter"', onToken: chunk => chunks.push(chunk) });
+        expect(chunks.join('')).toBe(response);
+        expect(chunks.length).toBeGreaterThan(1);
+    });
+});
@@ -0,0 +1,335 @@
+import { GoogleGenAI } from "@google/genai";
+
+// --- TYPES ---
+export type ProviderKind = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+// One recorded answer for the mock provider. `match` must equal the prompt's key (see derivePromptKey); wrap it in
+// slashes (e.g. "/task-\\d+/i") for a regex tested against the whole prompt.
+export interface ScriptedResponse {
+    match: string;
+    response?: string;
+    error?: string; // Throw this instead of answering, e.g. to exercise the retry path
+    times?: number; // How many prompts this entry may answer; unlimited when omitted
+}
+
+export interface ProviderConfig {
+    kind: ProviderKind;
+    model: string;
+    baseUrl?: string;
+    apiKey?: string;
+    script?: ScriptedResponse[];
+    delayMs?: number;
+}
+
+export interface GenerateTextRequest {
+    prompt: string;
+    systemInstruction?: string;
+    // Ask for a JSON response. Gemini enforces the schema natively; the HTTP adapters pass it on as an instruction.
+    json?: { schema: object };
+    // Streams the response: called with each chunk as it arrives. The full text is still returned at the end.
+    onToken?: (chunk: string) => void;
+    // Aborting rejects the request with an AbortError.
+    signal?: AbortSignal;
+}
+
+export interface GenerateImageRequest {
+    prompt: string;
+    aspectRatio?: string;
+}
+
+export interface LLMProvider {
+    readonly label: string;
+    generateText(request: GenerateTextRequest): Promise<string>;
+    // Returns a data URI. Providers without image support leave this undefined.
+    generateImage?(request: GenerateImageRequest): Promise<string>;
+}
+
+// --- CONFIG ---
+export const PROVIDER_KIND_LABELS: Record<ProviderKind, string> = {
+    gemini: 'Google Gemini',
+    openai: 'OpenAI-compatible HTTP',
+    ollama: 'Ollama / local server',
+    mock: 'Mock (scripted replay)',
+};
+
+export const DEFAULT_PROVIDER_CONFIGS: Record<ProviderKind, ProviderConfig> = {
+    gemini: { kind: 'gemini', model: 'gemini-2.5-flash' },
+    openai: { kind: 'openai', model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1' },
+    ollama: { kind: 'ollama', model: 'llama3.1', baseUrl: 'http://localhost:11434' },
+    mock: { kind: 'mock', model: 'replay', script: [] },
+};
+
+const GEMINI_IMAGE_MODEL = 'imagen-4.0-generate-001';
+const MOCK_STREAM_CHUNK_DELAY_MS = 20; // Per chunk when streaming a delayed mock response
+
+// --- HELPERS ---
+const jsonInstruction = (schema: object) => `Respond ONLY with valid JSON matching this schema, with no explanation or markdown:\n${JSON.stringify(schema, null, 2)}`;
+
+// Local models like to wrap JSON in a fenced block even when told not to.
+const stripCodeFence = (text: string): string => {
+    const match = text.trim().match(/^`{3}(?:\w+)?\n([\s\S]*?)\n`{3}$/);
+    return match ? match[1].trim() : text.trim();
+};
+
+const buildChatMessages = (request: GenerateTextRequest) => {
+    const system = [request.systemInstruction, request.json && jsonInstruction(request.json.schema)].filter(Boolean).join('\n\n');
+    return [
+        ...(system ? [{ role: 'system', content: system }] : []),
+        { role: 'user', content: request.prompt },
+    ];
+};
+
+const post = async (label: string, url: string, body: object, headers: Record<string, string> = {}, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        throw new Error(`${label} request failed (${response.status}): ${text.slice(0, 200)}`);
+    }
+    return response;
+};
+
+// Calls `onLine` for every complete line of a streamed body (SSE and NDJSON are both line-based).
+const readLines = async (response: Response, onLine: (line: string) => void) => {
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop()!;
+        lines.forEach(line => { if (line.trim()) onLine(line); });
+    }
+    if (buffer.trim()) onLine(buffer);
+};
+
+const createAbortError = () => new DOMException('The request was aborted.', 'AbortError');
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw createAbortError();
+};
+
+// Resolves after `ms`, or rejects as soon as the signal aborts.
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    throwIfAborted(signal);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => { clearTimeout(timer); reject(createAbortError()); }, { once: true });
+});
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+// The planner and task prompts both quote the text that identifies them; recordings are keyed on it so a
+// replay still matches when incidental parts of the prompt (file tree, file contents) differ.
+export const derivePromptKey = (prompt: string): string => {
+    const patterns = [/Your current task is: "([^"]*)"/, /User Request: "([^"]*)"/, /Request: "([^"]*)"/];
+    for (const pattern of patterns) {
+        const match = prompt.match(pattern);
+        if (match) return match[1];
+    }
+    return prompt.trim().slice(0, 200);
+};
+
+// Exact keys only, so a short or empty entry can't answer every prompt and swallow the responses after it.
+export const promptMatches = (match: string, prompt: string): boolean => {
+    const regex = match.match(/^\/(.+)\/([a-z]*)$/);
+    if (regex) return new RegExp(regex[1], regex[2]).test(prompt);
+    return match.trim() !== '' && derivePromptKey(prompt) === match;
+};
+
+// --- ADAPTERS ---
+export class GeminiProvider implements LLMProvider {
+    readonly label: string;
+    private readonly ai: GoogleGenAI;
+
+    constructor(private readonly config: ProviderConfig) {
+        this.label = `Gemini (${config.model})`;
+        this.ai = new GoogleGenAI({ apiKey: config.apiKey || process.env.API_KEY });
+    }
+
+    async generateText(request: GenerateTextRequest): Promise<string> {
+        const params = {
+            model: this.config.model,
+            contents: request.prompt,
+            config: {
+                ...(request.systemInstruction ? { systemInstruction: request.systemInstruction } : {}),
+                ...(request.json ? { responseMimeType: 'application/json', responseSchema: request.json.schema } : {}),
+                ...(request.signal ? { abortSignal: request.signal } : {}),
+            },
+        };
+        if (!request.onToken) {
+            const response = await this.ai.models.generateContent(params);
+            return response.text ?? '';
+        }
+        let text = '';
+        for await (const chunk of await this.ai.models.generateContentStream(params)) {
+            throwIfAborted(request.signal);
+            const token = chunk.text ?? '';
+            if (!token) continue;
+            text += token;
+            request.onToken(token);
+        }
+        return text;
+    }
+
+    async generateImage(request: GenerateImageRequest): Promise<string> {
+        const response = await this.ai.models.generateImages({
+            model: GEMINI_IMAGE_MODEL,
+            prompt: request.prompt,
+            config: { numberOfImages: 1, outputMimeType: 'image/png', aspectRatio: request.aspectRatio || '1:1' },
+        });
+        const imageBytes = response.generatedImages?.[0]?.image?.imageBytes;
+        if (!imageBytes) throw new Error('Gemini returned no image.');
+        return `data:image/png;base64,${imageBytes}`;
+    }
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly label: string;
+
+    constructor(private readonly config: ProviderConfig) {
+        this.label = `OpenAI-compatible (${config.model})`;
+    }
+
+    async generateText(request: GenerateTextRequest): Promise<string> {
+        const baseUrl = trimTrailingSlash(this.config.baseUrl || DEFAULT_PROVIDER_CONFIGS.openai.baseUrl!);
+        const response = await post(this.label, `${baseUrl}/chat/completions`, {
+            model: this.config.model,
+            messages: buildChatMessages(request),
+            stream: !!request.onToken,
+        }, this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}, request.signal);
+
+        let text = '';
+        if (request.onToken) {
+            // Server-sent events: `data: {...}` per chunk, then `data: [DONE]`
+            await readLines(response, line => {
+                const data = line.replace(/^data:\s*/, '');
+                if (!line.startsWith('data:') || data === '[DONE]') return;
+                const token: string = JSON.parse(data).choices?.[0]?.delta?.content ?? '';
+                if (!token) return;
+                text += token;
+                request.onToken!(token);
+            });
+        } else {
+            const data = await response.json();
+            text = data.choices?.[0]?.message?.content ?? '';
+        }
+        return request.json ? stripCodeFence(text) : text;
+    }
+}
+
+export class OllamaProvider implements LLMProvider {
+    readonly label: string;
+
+    constructor(private readonly config: ProviderConfig) {
+        this.label = `Ollama (${config.model})`;
+    }
+
+    async generateText(request: GenerateTextRequest): Promise<string> {
+        const baseUrl = trimTrailingSlash(this.config.baseUrl || DEFAULT_PROVIDER_CONFIGS.ollama.baseUrl!);
+        const response = await post(this.label, `${baseUrl}/api/chat`, {
+            model: this.config.model,
+            messages: buildChatMessages(request),
+            stream: !!request.onToken,
+            ...(request.json ? { format: 'json' } : {}),
+        }, {}, request.signal);
+
+        let text = '';
+        if (request.onToken) {
+            // Newline-delimited JSON, one `{ message: { content } }` object per chunk
+            await readLines(response, line => {
+                const token: string = JSON.parse(line).message?.content ?? '';
+                if (!token) return;
+                text += token;
+                request.onToken!(token);
+            });
+        } else {
+            const data = await response.json();
+            text = data.message?.content ?? '';
+        }
+        return request.json ? stripCodeFence(text) : text;
+    }
+}
+
+// Serves scripted responses in order, so orchestration can run offline and deterministically.
+export class MockProvider implements LLMProvider {
+    readonly label: string;
+    private readonly uses: number[];
+
+    constructor(private readonly script: ScriptedResponse[], private readonly delayMs = 0) {
+        this.label = `Mock (${script.length} response${script.length === 1 ? '' : 's'})`;
+        this.uses = script.map(() => 0);
+    }
+
+    async generateText(request: GenerateTextRequest): Promise<string> {
+        if (this.delayMs > 0) await delay(this.delayMs, request.signal);
+        throwIfAborted(request.signal);
+        const index = this.script.findIndex((entry, i) => (entry.times === undefined || this.uses[i] < entry.times) && promptMatches(entry.match, request.prompt));
+        if (index === -1) throw new Error(`Mock provider has no recorded response for "${derivePromptKey(request.prompt).slice(0, 80)}"`);
+        this.uses[index]++;
+        const entry = this.script[index];
+        if (entry.error !== undefined) throw new Error(entry.error);
+        const response = entry.response ?? '';
+        if (request.onToken) {
+            // Replays in word-sized chunks, so streaming UIs can be exercised offline
+            for (const token of response.match(/\S*\s*/g)!.filter(Boolean)) {
+                if (this.delayMs > 0) await delay(Math.min(this.delayMs, MOCK_STREAM_CHUNK_DELAY_MS), request.signal);
+                throwIfAborted(request.signal);
+                request.onToken(token);
+            }
+        }
+        return response;
+    }
+}
+
+// Captures live responses so a run can be replayed later through MockProvider.
+export class ResponseRecorder {
+    private entries: ScriptedResponse[] = [];
+
+    constructor(private readonly onRecord?: (count: number) => void) {}
+
+    get script(): ScriptedResponse[] {
+        return [...this.entries];
+    }
+
+    clear() {
+        this.entries = [];
+        this.onRecord?.(0);
+    }
+
+    wrap(provider: LLMProvider): LLMProvider {
+        const record = (entry: ScriptedResponse) => {
+            this.entries.push(entry);
+            this.onRecord?.(this.entries.length);
+        };
+        return {
+            label: `${provider.label} (recording)`,
+            generateImage: provider.generateImage?.bind(provider),
+            generateText: async (request: GenerateTextRequest) => {
+                const match = derivePromptKey(request.prompt);
+                try {
+                    const response = await provider.generateText(request);
+                    record({ match, response, times: 1 });
+                    return response;
+                } catch (e) {
+                    record({ match, error: e instanceof Error ? e.message : String(e), times: 1 });
+                    throw e;
+                }
+            },
+        };
+    }
+}
+
+export const createProvider = (config: ProviderConfig): LLMProvider => {
+    switch (config.kind) {
+        case 'gemini': return new GeminiProvider(config);
+        case 'openai': return new OpenAICompatibleProvider(config);
+        case 'ollama': return new OllamaProvider(config);
+        case 'mock': return new MockProvider(config.script || [], config.delayMs);
+        default: throw new Error(`Unknown LLM provider: ${(config as ProviderConfig).kind}`);
+    }
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { buildTestRunResult, parseVitestJson, summarizeTestRun, testRunPassed } from './testing';
+
+const report = JSON.stringify({
+    numTotalTests: 3,
+    numPassedTests: 2,
+    numFailedTests: 1,
+    testResults: [
+        {
+            name: '/home/project/src/Counter.test.tsx',
+            status: 'failed',
+            assertionResults: [
+                { status: 'passed', fullName: 'Counter starts at zero' },
+                { status: 'failed', fullName: 'Counter increments', failureMessages: ['\u001b[31mexpected 1 to be 2\u001b[39m'] },
+            ],
+        },
+        { name: '/home/project/src/broken.test.ts', status: 'failed', message: 'Cannot find module ./missing', assertionResults: [] },
+        { name: '/home/project/src/ok.test.ts', status: 'passed', assertionResults: [{ status: 'passed', title: 'works' }] },
+    ],
+});
+
+describe('parseVitestJson', () => {
+    it('collects failed assertions and files that failed to run, relative to the workdir', () => {
+        const result = parseVitestJson(report, '/home/project/');
+
+        expect(result.failures).toEqual([
+            { file: '/src/Counter.test.tsx', name: 'Counter increments', message: 'expected 1 to be 2' },
+            { file: '/src/broken.test.ts', name: '(test file failed to run)', message: 'Cannot find module ./missing' },
+        ]);
+        expect(result).toMatchObject({ passed: 2, failed: 2, total: 4 });
+    });
+
+    it('copes with a partial report', () => {
+        expect(parseVitestJson('{}')).toEqual({ passed: 0, failed: 0, total: 0, failures: [] });
+    });
+});
+
+describe('testRunPassed', () => {
+    const run = (exitCode: number, output: string, jsonReport: string | null) => buildTestRunResult('npx vitest run', exitCode, output, jsonReport);
+
+    it('passes a clean run with tests', () => {
+        const result = run(0, '', JSON.stringify({ numTotalTests: 2, numPassedTests: 2, testResults: [] }));
+        expect(testRunPassed(result)).toBe(true);
+        expect(summarizeTestRun(result)).toBe('2/2 passed');
+    });
+
+    it('fails a run with failing tests', () => {
+        expect(testRunPassed(run(1, '', report))).toBe(false);
+    });
+
+    it('fails a run that crashed without writing a report', () => {
+        const result = run(1, 'Error: Cannot find package vitest', null);
+        expect(testRunPassed(result)).toBe(false);
+        expect(summarizeTestRun(result)).toBe('Test run failed (exit code 1)');
+    });
+
+    it('fails a run that found no tests', () => {
+        const result = run(0, 'No test files found', JSON.stringify({ numTotalTests: 0, testResults: [] }));
+        expect(testRunPassed(result)).toBe(false);
+        expect(summarizeTestRun(result)).toBe('No tests ran');
+    });
+
+    it('fails a run whose tests passed but whose process exited with an error', () => {
+        const result = run(1, '', JSON.stringify({ numTotalTests: 1, numPassedTests: 1, testResults: [] }));
+        expect(testRunPassed(result)).toBe(false);
+        expect(summarizeTestRun(result)).toBe('1/1 passed, but vitest exited with code 1');
+    });
+});
@@ -0,0 +1,104 @@
+import type { TestFailure, TestRunResult } from './types';
+
+// --- TYPES ---
+// The parts of Vitest's JSON report (Jest's result shape) that are read. Everything is optional: a crashed run can
+// write a partial report.
+interface VitestAssertionResult {
+    status?: string; // 'passed' | 'failed' | 'skipped' | 'pending' | 'todo'
+    title?: string;
+    fullName?: string;
+    failureMessages?: string[];
+}
+
+interface VitestFileResult {
+    name?: string;
+    status?: string;
+    message?: string; // Why the file failed when it has no assertions, e.g. an import error
+    assertionResults?: VitestAssertionResult[];
+}
+
+interface VitestJsonReport {
+    numTotalTests?: number;
+    numPassedTests?: number;
+    numFailedTests?: number;
+    testResults?: VitestFileResult[];
+}
+
+// --- CONFIG ---
+export const TEST_RESULTS_PATH = '/.agentic/test-results.json';
+// The default reporter streams to the terminal; the JSON one is what gets parsed.
+export const TEST_COMMAND = ['npx', 'vitest', 'run', '--reporter=default', '--reporter=json', `--outputFile.json=${TEST_RESULTS_PATH.slice(1)}`];
+export const TEST_TIMEOUT_MS = 2 * 60 * 1000;
+const MAX_OUTPUT_LENGTH = 4000;
+const MAX_FAILURE_MESSAGE_LENGTH = 600;
+
+// --- HELPERS ---
+export const stripAnsi = (text: string): string => text.replace(/\u001b\[[0-9;?]*[A-Za-z]/g, '');
+
+const tail = (text: string, length: number) => text.length > length ? `…${text.slice(-length)}` : text;
+
+export const isTestFile = (path: string): boolean => /\.(test|spec)\.[jt]sx?$/.test(path);
+
+// `/src/Counter.test.tsx` -> the paths its subject most likely lives at.
+export const sourceCandidatesForTest = (testPath: string): string[] => {
+    const base = testPath.replace(/\.(test|spec)\.[jt]sx?$/, '').replace(/\/__tests__\//, '/');
+    return ['.tsx', '.ts', '.jsx', '.js'].map(extension => `${base}${extension}`);
+};
+
+// A run only passes when vitest exited cleanly and actually ran something: a crash, a missing report or an empty
+// suite must not count as green.
+export const testRunPassed = (result: TestRunResult): boolean => result.exitCode === 0 && result.total > 0 && result.failed === 0;
+
+export const summarizeTestRun = (result: TestRunResult): string => {
+    if (result.total === 0) return result.exitCode === 0 ? 'No tests ran' : `Test run failed (exit code ${result.exitCode})`;
+    const summary = `${result.passed}/${result.total} passed${result.failed > 0 ? `, ${result.failed} failed` : ''}`;
+    return result.exitCode !== 0 && result.failed === 0 ? `${summary}, but vitest exited with code ${result.exitCode}` : summary;
+};
+
+// --- PARSING ---
+// Vitest's JSON reporter follows Jest's result shape. File names are absolute inside the container, so
+// `workdir` is stripped to get workspace paths.
+export const parseVitestJson = (json: string, workdir = ''): Pick<TestRunResult, 'passed' | 'failed' | 'total' | 'failures'> => {
+    const report: VitestJsonReport = JSON.parse(json);
+    const failures: TestFailure[] = [];
+    (report.testResults || []).forEach(fileResult => {
+        const name = String(fileResult.name || '');
+        const file = workdir && name.startsWith(workdir) ? name.slice(workdir.replace(/\/$/, '').length) : name;
+        const assertions = fileResult.assertionResults || [];
+        assertions.filter(assertion => assertion.status === 'failed').forEach(assertion => {
+            failures.push({
+                file,
+                name: assertion.fullName || assertion.title || 'unnamed test',
+                message: stripAnsi((assertion.failureMessages || []).join('\n')).slice(0, MAX_FAILURE_MESSAGE_LENGTH),
+            });
+        });
+        // A file that fails to import or compile has no assertions, only a message.
+        if (fileResult.status === 'failed' && assertions.length === 0) {
+            failures.push({ file, name: '(test file failed to run)', message: stripAnsi(fileResult.message || '').slice(0, MAX_FAILURE_MESSAGE_LENGTH) });
+        }
+    });
+    const passed = Number(report.numPassedTests) || 0;
+    const failed = Math.max(Number(report.numFailedTests) || 0, failures.length);
+    return { passed, failed, total: Math.max(Number(report.numTotalTests) || 0, passed + failed), failures };
+};
+
+// Fallback for when the JSON report was never written, e.g. vitest crashed before running anything.
+export const parseTestOutput = (output: string): Pick<TestRunResult, 'passed' | 'failed' | 'total' | 'failures'> => {
+    const text = stripAnsi(output);
+    const summary = text.match(/Tests\s+([^\n]*)/);
+    const failed = Number(summary?.[1].match(/(\d+) failed/)?.[1] || 0);
+    const passed = Number(summary?.[1].match(/(\d+) passed/)?.[1] || 0);
+    return { passed, failed, total: passed + failed, failures: [] };
+};
+
+export const buildTestRunResult = (command: string, exitCode: number, output: string, jsonReport: string | null, workdir = ''): TestRunResult => {
+    let counts = parseTestOutput(output);
+    if (jsonReport) {
+        try {
+            counts = parseVitestJson(jsonReport, workdir);
+        } catch {
+            // Keep the console-derived counts.
+        }
+    }
+    return { command, exitCode, ...counts, output: tail(stripAnsi(output), MAX_OUTPUT_LENGTH), ranAt: Date.now() };
+};
@@ -0,0 +1,87 @@
+// Domain types shared by the UI (App.tsx) and the framework-independent orchestration engine.
+
+export type AgentTaskState = 'Queued' | 'Executing' | 'AwaitingReview' | 'Completed' | 'Failed' | 'Blocked';
+
+// Content an agent produced for a file, held back from `files` until a human approves it.
+export interface PendingChange {
+    filePath: string;
+    content: string;
+    isNewFile: boolean;
+}
+
+export interface TestFailure {
+    file: string;
+    name: string;
+    message: string;
+}
+
+// The outcome of running the project's tests after a QA task.
+export interface TestRunResult {
+    command: string;
+    exitCode: number;
+    passed: number;
+    failed: number;
+    total: number;
+    failures: TestFailure[];
+    output: string; // Tail of the console output, for when the numbers alone don't explain a failure
+    ranAt: number;
+}
+
+export type VerificationMode = 'off' | 'typecheck' | 'build';
+
+export interface CompilerError {
+    file: string;
+    line: number;
+    column: number;
+    code: string;
+    message: string;
+}
+
+// The outcome of type-checking or building the workspace with a task's changes applied.
+export interface VerificationResult {
+    mode: Exclude<VerificationMode, 'off'>;
+    command: string;
+    exitCode: number;
+    passed: boolean;
+    errors: CompilerError[];
+    output: string;
+    ranAt: number;
+}
+
+// One run of a task's executor, kept so retries (and people) can see what went wrong before.
+export interface TaskAttempt {
+    number: number;
+    startedAt: number;
+    finishedAt: number;
+    outcome: 'succeeded' | 'failed' | 'rejected' | 'aborted';
+    error?: string;
+    output?: string; // The agent's raw response, truncated
+    verification?: VerificationResult;
+}
+
+export interface AgentTask {
+    id: string;
+    description: string;
+    state: AgentTaskState;
+    filePath: string; // The primary file; also the one the plan views show
+    files?: string[]; // Other files the task may edit, for cross-file changes
+    dependencies?: string[];
+    agent: string;
+    retries: number;
+    pendingChanges?: PendingChange[];
+    error?: string; // Why the latest attempt failed
+    attempts?: TaskAttempt[];
+    testRun?: TestRunResult;
+    verification?: VerificationResult;
+    runOnly?: boolean; // Skip code generation and only run the task's checks, e.g. a re-test after fixes
+    fixRound?: number; // How many test-fix rounds led to this task
+}
+
+// A task as the planner proposes it, before the orchestrator assigns it a state.
+export type PlannedTask = Omit<AgentTask, 'state' | 'retries'>;
+
+export interface Agent {
+  name: string;
+  status: 'Idle' | 'Working';
+  tasks: AgentTask[];
+}
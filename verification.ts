@@ -0,0 +1,63 @@
+import type { CompilerError, VerificationMode, VerificationResult } from './types';
+import { stripAnsi } from './testing';
+
+// --- CONFIG ---
+export const VERIFICATION_COMMANDS: Record<Exclude<VerificationMode, 'off'>, string[]> = {
+    typecheck: ['npx', 'tsc', '--noEmit', '-p', '.'],
+    build: ['npx', 'vite', 'build'],
+};
+
+export const VERIFICATION_MODE_LABELS: Record<VerificationMode, string> = {
+    off: 'Off',
+    typecheck: 'Type-check',
+    build: 'Vite build',
+};
+
+export const VERIFICATION_TIMEOUT_MS = 2 * 60 * 1000;
+const MAX_OUTPUT_LENGTH = 4000;
+const MAX_ERRORS_IN_PROMPT = 20;
+
+// --- PARSING ---
+// tsc's default (non-pretty) format: `src/App.tsx(12,5): error TS2322: Type 'string' is not assignable ...`
+const TSC_ERROR_LINE = /^(.+?)\((\d+),(\d+)\): error (TS\d+): (.*)$/;
+
+export const parseTscOutput = (output: string): CompilerError[] => {
+    const errors: CompilerError[] = [];
+    stripAnsi(output).split('\n').forEach(line => {
+        const match = line.trim().match(TSC_ERROR_LINE);
+        if (match) {
+            const file = match[1].startsWith('/') ? match[1] : `/${match[1]}`;
+            errors.push({ file, line: Number(match[2]), column: Number(match[3]), code: match[4], message: match[5] });
+        } else if (errors.length > 0 && /^\s{2,}\S/.test(line)) {
+            // Continuation lines of a multi-line diagnostic
+            errors[errors.length - 1].message += `\n${line.trim()}`;
+        }
+    });
+    return errors;
+};
+
+// A type-check only blocks the task for errors in files it changed; errors elsewhere may predate it or belong
+// to another agent's work in progress. A build has no per-file view, so any failure counts.
+export const buildVerificationResult = (mode: Exclude<VerificationMode, 'off'>, exitCode: number, output: string, changedPaths: string[]): VerificationResult => {
+    const errors = mode === 'typecheck' ? parseTscOutput(output) : [];
+    const passed = exitCode === 0 || (mode === 'typecheck' && errors.length > 0 && !errors.some(error => changedPaths.includes(error.file)));
+    const clean = stripAnsi(output);
+    return {
+        mode,
+        command: VERIFICATION_COMMANDS[mode].join(' '),
+        exitCode,
+        passed,
+        errors,
+        output: clean.length > MAX_OUTPUT_LENGTH ? `…${clean.slice(-MAX_OUTPUT_LENGTH)}` : clean,
+        ranAt: Date.now(),
+    };
+};
+
+// What a retry sees of a failed check, phrased for the prompt.
+export const describeVerificationFailure = (result: VerificationResult): string => {
+    const label = VERIFICATION_MODE_LABELS[result.mode];
+    if (result.errors.length === 0) return `${label} failed (\`${result.command}\`, exit code ${result.exitCode}):\n${result.output}`;
+    const listed = result.errors.slice(0, MAX_ERRORS_IN_PROMPT).map(error => `${error.file}:${error.line}:${error.column} ${error.code}: ${error.message}`);
+    const more = result.errors.length > MAX_ERRORS_IN_PROMPT ? `\n…and ${result.errors.length - MAX_ERRORS_IN_PROMPT} more` : '';
+    return `${label} failed with ${result.errors.length} error(s):\n${listed.join('\n')}${more}`;
+};